@@ -1,7 +1,59 @@
-import { StreamClient } from "./client";
+import { StreamClient, type Middleware } from "./client";
+import { TypedEventEmitter } from "./emitter";
+import { StateMachine, type RealtimeVisionState } from "./state";
+import { ResultQueue, type ResultStreamOptions } from "./results";
+import {
+  ConfigError,
+  InvalidStateError,
+  LeaseExpiredError,
+  MediaAccessError,
+  NotFoundError,
+  OvershootError,
+  ProtocolError,
+  ResultValidationError,
+  WebRtcNegotiationError,
+  WebSocketError,
+} from "./errors";
+import { toMediaAccessError } from "./devices";
+import {
+  ChangeDetector,
+  type ChangeDetectionOptions,
+  type ChangeEvent,
+} from "./change";
+import {
+  parseJsonResult,
+  compileSchema,
+  validateSchema,
+  type InferResult,
+  type OutputSchema,
+} from "./schema";
+import { ResultHistory, type ResultHistoryOptions } from "./history";
+import { PromptScheduler, type PromptScheduleOptions } from "./scheduler";
+import { decodeServerMessage, type DecodedServerMessage } from "./decoders";
+import type { AuthOptions, TokenProvider } from "./auth";
+import {
+  LeveledLogger,
+  LOG_LEVELS,
+  type Logger,
+  type LogLevel,
+} from "./logger";
+import {
+  MetricsCollector,
+  type LeaseRenewal,
+  type MetricsOptions,
+  type OutboundVideoStats,
+  type RealtimeVisionMetrics,
+  type StatsReader,
+} from "./metrics";
 
 import {
+  type CameraSource,
+  type MediaStreamSource,
+  type ScreenSource,
   type StreamInferenceResult,
+  type StreamErrorMessage,
+  type StreamUnknownMessage,
+  type StreamConfigResponse,
   type StreamProcessingConfig,
   type StreamSource,
 } from "./types";
@@ -17,13 +69,14 @@ const DEFAULTS = {
   CLIP_LENGTH_SECONDS: 1.0,
   DELAY_SECONDS: 1.0,
   FALLBACK_FPS: 30,
-  ICE_SERVERS: [
-    {
-      urls: "turn:34.63.114.235:3478",
-      username: "1769538895:c66a907c-61f4-4ec2-93a6-9d6b932776bb",
-      credential: "Fu9L4CwyYZvsOLc+23psVAo3i/Y=",
-    },
-  ] as RTCIceServer[],
+  RECONNECT_MAX_ATTEMPTS: 10,
+  RECONNECT_INITIAL_DELAY_MS: 500,
+  RECONNECT_MAX_DELAY_MS: 30000,
+  ICE_MAX_RESTARTS: 3,
+  ICE_DISCONNECTED_TIMEOUT_MS: 3000,
+  METRICS_WINDOW_MS: 60000,
+  METRICS_INTERVAL_MS: 5000,
+  ICE_TRANSPORT_POLICY: "all",
 } as const;
 
 /**
@@ -35,48 +88,104 @@ const CONSTRAINTS = {
   CLIP_LENGTH_SECONDS: { min: 0.1, max: 60 },
   DELAY_SECONDS: { min: 0, max: 60 },
   RATING: { min: 1, max: 5 },
+  RECONNECT_MAX_ATTEMPTS: { min: 0, max: 1000 },
 } as const;
 
 /**
- * Logger utility for controlled logging
+ * WebSocket close code sent by the server when authentication fails
  */
-class Logger {
-  private debugEnabled: boolean;
+const WS_AUTH_FAILED_CLOSE_CODE = 1008;
 
-  constructor(debugEnabled: boolean = false) {
-    this.debugEnabled = debugEnabled;
-  }
+export type ReconnectingEvent = {
+  attempt: number;
+  delayMs: number;
+};
 
-  debug(...args: any[]): void {
-    if (this.debugEnabled) {
-      console.log("[RealtimeVision Debug]", ...args);
-    }
-  }
+export type ReconnectedEvent = {
+  attempts: number;
+};
 
-  info(...args: any[]): void {
-    console.log("[RealtimeVision]", ...args);
-  }
+export type RecoveringEvent = {
+  reason: "ice-disconnected" | "ice-failed";
+  strategy: "ice-restart" | "rebuild";
+  attempt: number;
+};
 
-  warn(...args: any[]): void {
-    console.warn("[RealtimeVision]", ...args);
-  }
+export type RecoveredEvent = {
+  strategy: "ice-restart" | "rebuild";
+  attempts: number;
+  streamId: string;
+};
 
-  error(...args: any[]): void {
-    console.error("[RealtimeVision]", ...args);
-  }
+/**
+ * An inference result with its parsed value.
+ * parsed is the raw string without an outputSchema, or the JSON value
+ * validated against it. Failed inferences (ok: false) are not parsed.
+ */
+export type RealtimeVisionResult<T = string> = (
+  | (StreamInferenceResult & { ok: true; parsed: T })
+  | (StreamInferenceResult & { ok: false; parsed: null })
+) & {
+  /**
+   * Name of the promptSchedule entry that produced the result
+   */
+  scheduleEntry?: string;
+};
+
+/**
+ * Events emitted by RealtimeVision, keyed by event name
+ */
+export interface RealtimeVisionEvents<T = string> {
+  stateChange: { from: RealtimeVisionState; to: RealtimeVisionState };
+  result: RealtimeVisionResult<T>;
+  change: ChangeEvent<RealtimeVisionResult<T> & { ok: true }>;
+  error: { error: Error; fatal: boolean };
+  leaseRenewed: { streamId: string; ttlSeconds: number };
+  leaseExpiring: { streamId: string; ttlSeconds: number };
+  /**
+   * Error reported on the result WebSocket; the stream keeps running
+   */
+  serverError: StreamErrorMessage;
+  /**
+   * WebSocket message of a kind this SDK version does not handle
+   */
+  serverMessage: StreamUnknownMessage;
+  iceConnectionStateChange: { state: RTCIceConnectionState };
+  webSocketStateChange: {
+    state: "connecting" | "open" | "closed";
+    code?: number;
+  };
+  sourceEnded: { type: StreamSource["type"] };
+  sourceChanged: { from: StreamSource["type"]; to: StreamSource["type"] };
+  reconnecting: ReconnectingEvent;
+  reconnected: ReconnectedEvent;
+  recovering: RecoveringEvent;
+  recovered: RecoveredEvent;
+  metrics: RealtimeVisionMetrics;
 }
 
-export interface RealtimeVisionConfig {
+export interface RealtimeVisionConfig<
+  T = unknown,
+  S extends OutputSchema | undefined = undefined,
+> {
   /**
    * Base URL for the API (e.g., "https://api.example.com")
    */
   apiUrl: string;
 
   /**
-   * API key for authentication
-   * Required for all API requests
+   * API key for authentication. Required unless auth is set; prefer auth
+   * in browsers so the key is never shipped to end users.
+   */
+  apiKey?: string;
+
+  /**
+   * Short-lived tokens from your backend (see StreamClient.createToken()),
+   * cached until they expire and refreshed ahead of expiry. A request
+   * rejected with 401 or a WebSocket closed with 1008 is retried once with
+   * a new token before the session fails.
    */
-  apiKey: string;
+  auth?: TokenProvider | AuthOptions;
 
   /**
    * The prompt/task to run on window segments of the stream.
@@ -106,20 +215,107 @@ export interface RealtimeVisionConfig {
   model?: string;
 
   /**
-   * Optional JSON schema for structured output
+   * Optional JSON schema for structured output.
+   * Results are parsed and validated against it; pass it `as const` to
+   * infer the type of result.parsed.
    */
-  outputSchema?: Record<string, any>;
+  outputSchema?: S | OutputSchema;
 
   /**
    * Called when a new inference result arrives (~1 per second)
    */
-  onResult: (result: StreamInferenceResult) => void;
+  onResult: (result: RealtimeVisionResult<InferResult<T, S>>) => void;
 
   /**
    * Called when an error occurs
    */
   onError?: (error: Error) => void;
 
+  /**
+   * Called when the results WebSocket dropped and a reconnect is scheduled.
+   * The media path and lease stay up while reconnecting.
+   */
+  onReconnecting?: (info: ReconnectingEvent) => void;
+
+  /**
+   * Called when the results WebSocket has been re-established
+   */
+  onReconnected?: (info: ReconnectedEvent) => void;
+
+  /**
+   * Called when the media path was lost and the SDK starts recovering it,
+   * either by restarting ICE or by rebuilding the stream
+   */
+  onRecovering?: (info: RecoveringEvent) => void;
+
+  /**
+   * Called when the media path has been recovered.
+   * After a rebuild the stream has a new stream ID.
+   */
+  onRecovered?: (info: RecoveredEvent) => void;
+
+  /**
+   * Called when the result changes, after changeDetection has filtered out
+   * repeated and unstable results. prev is null for the first result.
+   * Failed inferences (ok: false) are ignored.
+   */
+  onChange?: (
+    prev: (RealtimeVisionResult<InferResult<T, S>> & { ok: true }) | null,
+    next: RealtimeVisionResult<InferResult<T, S>> & { ok: true },
+  ) => void;
+
+  /**
+   * How results are compared for the change event
+   */
+  changeDetection?: ChangeDetectionOptions<InferResult<T, S>>;
+
+  /**
+   * Keep a bounded history of results with their client receive times,
+   * available through getHistory(). true keeps the last 1000 results.
+   * @default false
+   */
+  history?: boolean | ResultHistoryOptions<InferResult<T, S>>;
+
+  /**
+   * Rotate the prompt through a list of entries while running. The first
+   * entry replaces prompt when the stream is created.
+   */
+  promptSchedule?: PromptScheduleOptions;
+
+  /**
+   * Called periodically while running with a metrics snapshot
+   * (see getMetrics())
+   */
+  onMetrics?: (metrics: RealtimeVisionMetrics) => void;
+
+  /**
+   * Metrics window and reporting interval
+   */
+  metrics?: MetricsOptions;
+
+  /**
+   * WebSocket reconnection behaviour
+   * Reconnects use exponential backoff with jitter and stop on an
+   * authentication failure (close code 1008) or after maxAttempts.
+   */
+  reconnect?: {
+    /**
+     * Maximum consecutive reconnect attempts before giving up (0 disables)
+     * @default 10
+     */
+    maxAttempts?: number;
+    /**
+     * Delay before the first reconnect attempt
+     * @default 500
+     */
+    initialDelayMs?: number;
+    /**
+     * Upper bound for the backoff delay
+     * @default 30000
+     */
+    maxDelayMs?: number;
+  };
+
   /**
    * Custom processing configuration
    * All fields are optional and will use defaults if not provided
@@ -144,36 +340,177 @@ export interface RealtimeVisionConfig {
   };
 
   /**
-   * ICE servers for WebRTC connection
-   * If not provided, uses default TURN servers
+   * Peer connection recovery behaviour on network changes
+   */
+  iceRecovery?: {
+    /**
+     * Maximum consecutive ICE restarts before rebuilding the stream
+     * @default 3
+     */
+    maxRestarts?: number;
+    /**
+     * How long ICE may stay "disconnected" before an ICE restart
+     * @default 3000
+     */
+    disconnectedTimeoutMs?: number;
+    /**
+     * Rebuild the stream under the same config when ICE restarts fail
+     * @default true
+     */
+    rebuildOnFailure?: boolean;
+  };
+
+  /**
+   * Pause automatically while the page is hidden (document.visibilityState)
+   * and resume when it becomes visible again. A pause() by the caller is
+   * never resumed automatically.
+   * @default false
+   */
+  pauseWhenHidden?: boolean;
+
+  /**
+   * ICE servers for WebRTC connection. If neither this nor
+   * iceServersProvider is set, the TURN servers returned by the server on
+   * stream creation are used.
    */
   iceServers?: RTCIceServer[];
 
   /**
-   * Enable debug logging
+   * Fetch ICE servers (e.g. short-lived TURN credentials) before every
+   * offer. Takes precedence over the servers returned on stream creation.
+   */
+  iceServersProvider?: () => Promise<RTCIceServer[]>;
+
+  /**
+   * "relay" only connects through TURN, e.g. on networks that block
+   * direct UDP
+   * @default "all"
+   */
+  iceTransportPolicy?: RTCIceTransportPolicy;
+
+  /**
+   * Enable debug logging, shorthand for logLevel: "debug"
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Destination for logs of this session and its requests. API keys and
+   * tokens are redacted.
+   * @default console
+   */
+  logger?: Logger;
+
+  /**
+   * Lowest level that is logged. Takes precedence over debug.
+   * @default "info"
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Hooks around every API request, e.g. to add tracing headers
+   */
+  middleware?: Middleware[];
 }
 
-class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "ValidationError";
-  }
+/**
+ * Settings that updateConfig() can change on a running stream
+ */
+export type RealtimeVisionConfigUpdate = {
+  backend?: "gemini" | "overshoot";
+  model?: string;
+  /**
+   * New JSON schema for structured output. The static type of
+   * result.parsed is not changed.
+   */
+  outputSchema?: OutputSchema;
+  processing?: RealtimeVisionConfig["processing"];
+};
+
+/**
+ * Per-prompt settings for addPrompt(). The connection settings (apiUrl,
+ * apiKey or auth, ICE servers, reconnect, recovery, logging and middleware)
+ * are shared with the session the prompt is added to.
+ */
+export type PromptConfig<
+  T = unknown,
+  S extends OutputSchema | undefined = undefined,
+> = Pick<
+  RealtimeVisionConfig<T, S>,
+  | "prompt"
+  | "backend"
+  | "model"
+  | "outputSchema"
+  | "processing"
+  | "onResult"
+  | "onError"
+  | "onChange"
+  | "changeDetection"
+  | "history"
+  | "onMetrics"
+  | "metrics"
+>;
+
+/**
+ * A prompt added with addPrompt(), as seen by the session that owns it.
+ * Keep the RealtimeVision returned by addPrompt() for its results and events.
+ */
+export interface PromptSession {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  switchSource(source: StreamSource): Promise<void>;
+  isActive(): boolean;
+  isPaused(): boolean;
+  getState(): RealtimeVisionState;
+  getStreamId(): string | null;
 }
 
-export class RealtimeVision {
-  private config: RealtimeVisionConfig;
+/**
+ * Real-time vision session.
+ * The type of result.parsed is T when given explicitly, otherwise inferred
+ * from a const outputSchema, or string when there is no schema.
+ */
+export class RealtimeVision<
+  T = unknown,
+  const S extends OutputSchema | undefined = undefined,
+> extends TypedEventEmitter<RealtimeVisionEvents<InferResult<T, S>>> {
+  private config: RealtimeVisionConfig<T, S>;
   private client: StreamClient;
   private logger: Logger;
+  private source: StreamSource;
 
   private mediaStream: MediaStream | null = null;
   private peerConnection: RTCPeerConnection | null = null;
+  private videoSender: RTCRtpSender | null = null;
   private webSocket: WebSocket | null = null;
   private streamId: string | null = null;
   private keepaliveInterval: number | null = null;
   private videoElement: HTMLVideoElement | null = null;
+  // False for app-provided media-stream sources, whose tracks we must not stop
+  private ownsMediaTracks = true;
+  private unwatchSourceTrack: (() => void) | null = null;
+  private isSwitchingSource = false;
+
+  // For pause() / resume()
+  private autoPaused = false;
+  private unwatchVisibility: (() => void) | null = null;
+  private unwatchPageHide: (() => void) | null = null;
+  // Server-side close of the last stream, awaited by stop()
+  private streamClosing: Promise<void> = Promise.resolve();
+
+  // For WebSocket reconnection
+  private reconnectAttempts = 0;
+  // Set after a 1008 close was retried with a new token
+  private webSocketAuthRetried = false;
+  private reconnectTimeout: number | null = null;
+
+  // For ICE restart / stream rebuild recovery
+  private detectedFps: number = DEFAULTS.FALLBACK_FPS;
+  private iceRestartAttempts = 0;
+  private iceDisconnectedTimeout: number | null = null;
+  private isRecovering = false;
 
   // For PNG stream support
   private canvasElement: HTMLCanvasElement | null = null;
@@ -181,111 +518,356 @@ export class RealtimeVision {
   private currentFrame: HTMLImageElement | null = null;
   private frameRenderInterval: number | null = null;
 
-  private isRunning = false;
+  private stateMachine: StateMachine;
+  private hasReceivedResult = false;
+  private degradedReasons = new Set<"websocket" | "ice">();
+  private changeDetector: ChangeDetector<
+    RealtimeVisionResult<InferResult<T, S>> & { ok: true }
+  >;
+  private history: ResultHistory<InferResult<T, S>> | null = null;
+  private metrics: MetricsCollector;
+  private promptScheduler: PromptScheduler | null = null;
+  /**
+   * Prompt the stream runs with: config.prompt, or the active schedule
+   * entry. config.prompt only changes through updatePrompt().
+   */
+  private activePrompt: string;
+  private promptUpdates: Promise<void> = Promise.resolve();
+  // TURN servers from the last stream creation, reused for rebuilds
+  private serverIceServers: RTCIceServer[] = [];
+  private metricsInterval: number | null = null;
+  /**
+   * Added prompts, each with the function that starts it on this
+   * session's capture
+   */
+  private prompts = new Map<PromptSession, () => Promise<void>>();
 
-  constructor(config: RealtimeVisionConfig) {
+  constructor(config: RealtimeVisionConfig<T, S>) {
+    super();
     this.validateConfig(config);
     this.config = config;
-    this.logger = new Logger(config.debug ?? false);
+    this.activePrompt = config.prompt;
+    this.source = config.source ?? DEFAULTS.SOURCE;
+    const logLevel = config.logLevel ?? (config.debug ? "debug" : "info");
+    this.logger = new LeveledLogger({
+      logger: config.logger,
+      level: logLevel,
+      prefix: "[RealtimeVision]",
+      secrets: () => [config.apiKey, this.client.peekCredential()],
+    });
     this.client = new StreamClient({
       baseUrl: config.apiUrl,
-      apiKey: config.apiKey,
+      ...(config.auth ? { auth: config.auth } : { apiKey: config.apiKey }),
+      ...(config.logger && { logger: config.logger }),
+      logLevel,
+      ...(config.middleware && { middleware: config.middleware }),
+      // Keeps the gateway's routing cookie across requests of a stream
+      credentials: "include",
+    });
+    this.changeDetector = new ChangeDetector(config.changeDetection);
+    if (config.promptSchedule) {
+      // Schedule switches change the active prompt, not config.prompt
+      this.promptScheduler = new PromptScheduler(
+        { updatePrompt: (prompt) => this.sendPrompt(prompt) },
+        config.promptSchedule,
+      );
+      this.promptScheduler.on("error", ({ error }) =>
+        this.handleNonFatalError(error),
+      );
+    }
+    this.metrics = new MetricsCollector(
+      config.metrics?.windowMs ?? DEFAULTS.METRICS_WINDOW_MS,
+    );
+    if (config.history) {
+      this.history = new ResultHistory(
+        config.history === true ? {} : config.history,
+      );
+    }
+    this.stateMachine = new StateMachine((from, to) => {
+      this.logger.debug("State:", from, "->", to);
+      this.emit("stateChange", { from, to });
     });
+
+    // Config callbacks are thin adapters over the event emitter
+    this.on("result", (result) => config.onResult(result));
+    if (config.onError) {
+      const onError = config.onError;
+      this.on("error", ({ error }) => onError(error));
+    }
+    if (config.onReconnecting) {
+      this.on("reconnecting", config.onReconnecting);
+    }
+    if (config.onReconnected) {
+      this.on("reconnected", config.onReconnected);
+    }
+    if (config.onRecovering) {
+      this.on("recovering", config.onRecovering);
+    }
+    if (config.onRecovered) {
+      this.on("recovered", config.onRecovered);
+    }
+    if (config.onChange) {
+      const onChange = config.onChange;
+      this.on("change", ({ prev, next }) => onChange(prev, next));
+    }
+    if (config.onMetrics) {
+      this.on("metrics", config.onMetrics);
+    }
+  }
+
+  /**
+   * Whether a stream is live (connected, possibly degraded)
+   */
+  private get isRunning(): boolean {
+    return this.stateMachine.isActive;
+  }
+
+  /**
+   * Log listener exceptions instead of letting them break the stream
+   */
+  protected onListenerError(
+    error: unknown,
+    event: keyof RealtimeVisionEvents,
+  ): void {
+    this.logger.error(`Error in "${String(event)}" listener:`, error);
+  }
+
+  /**
+   * Mark part of the session as degraded (WebSocket or media path)
+   */
+  private markDegraded(reason: "websocket" | "ice"): void {
+    this.degradedReasons.add(reason);
+    // While paused the reason is only recorded and applied on resume()
+    if (
+      this.stateMachine.state !== "degraded" &&
+      this.stateMachine.state !== "paused" &&
+      this.stateMachine.can("degraded")
+    ) {
+      this.stateMachine.transition("degraded");
+    }
+  }
+
+  /**
+   * Clear a degradation and leave the degraded state once none are left
+   */
+  private clearDegraded(reason: "websocket" | "ice"): void {
+    this.degradedReasons.delete(reason);
+    if (
+      this.degradedReasons.size === 0 &&
+      this.stateMachine.state === "degraded"
+    ) {
+      this.stateMachine.transition(this.getLiveState());
+    }
+  }
+
+  /**
+   * State of a connected, unpaused session given its degradations and
+   * whether results have started flowing
+   */
+  private getLiveState(): RealtimeVisionState {
+    if (this.degradedReasons.size > 0) {
+      return "degraded";
+    }
+    return this.hasReceivedResult ? "running" : "waiting-for-result";
   }
 
   /**
    * Validate configuration values
    */
-  private validateConfig(config: RealtimeVisionConfig): void {
+  private validateConfig(config: RealtimeVisionConfig<T, S>): void {
     if (!config.apiUrl || typeof config.apiUrl !== "string") {
-      throw new ValidationError("apiUrl is required and must be a string");
+      throw new ConfigError("apiUrl is required and must be a string");
     }
 
-    if (!config.apiKey || typeof config.apiKey !== "string") {
-      throw new ValidationError("apiKey is required and must be a string");
+    if (config.auth === undefined) {
+      if (!config.apiKey || typeof config.apiKey !== "string") {
+        throw new ConfigError("apiKey is required and must be a string");
+      }
+    } else if (
+      typeof config.auth !== "function" &&
+      typeof config.auth?.getToken !== "function"
+    ) {
+      throw new ConfigError("auth must be a function or { getToken }");
     }
 
     if (!config.prompt || typeof config.prompt !== "string") {
-      throw new ValidationError("prompt is required and must be a string");
+      throw new ConfigError("prompt is required and must be a string");
+    }
+
+    if (config.outputSchema !== undefined) {
+      if (
+        typeof config.outputSchema !== "object" ||
+        config.outputSchema === null
+      ) {
+        throw new ConfigError("outputSchema must be an object");
+      }
+      compileSchema(config.outputSchema);
     }
 
     if (config.source) {
-      if (config.source.type === "camera") {
-        if (
-          config.source.cameraFacing !== "user" &&
-          config.source.cameraFacing !== "environment"
-        ) {
-          throw new ValidationError(
-            'cameraFacing must be "user" or "environment"',
-          );
-        }
-      } else if (config.source.type === "video") {
-        if (!(config.source.file instanceof File)) {
-          throw new ValidationError("video source must provide a File object");
-        }
-      } else if (config.source.type === "png-stream") {
-        // Validate optional dimensions
-        if (config.source.width !== undefined && config.source.width <= 0) {
-          throw new ValidationError("png-stream width must be positive");
-        }
-        if (config.source.height !== undefined && config.source.height <= 0) {
-          throw new ValidationError("png-stream height must be positive");
-        }
-        if (config.source.targetFps !== undefined) {
-          const fps = config.source.targetFps;
-          if (fps < CONSTRAINTS.FPS.min || fps > CONSTRAINTS.FPS.max) {
-            throw new ValidationError(
-              `targetFps must be between ${CONSTRAINTS.FPS.min} and ${CONSTRAINTS.FPS.max}`,
-            );
-          }
-        }
-      } else {
-        throw new ValidationError(
-          'source.type must be "camera", "video", or "png-stream"',
+      this.validateSource(config.source);
+    }
+
+    if (
+      config.iceServersProvider !== undefined &&
+      typeof config.iceServersProvider !== "function"
+    ) {
+      throw new ConfigError("iceServersProvider must be a function");
+    }
+
+    if (
+      config.iceTransportPolicy !== undefined &&
+      config.iceTransportPolicy !== "all" &&
+      config.iceTransportPolicy !== "relay"
+    ) {
+      throw new ConfigError('iceTransportPolicy must be "all" or "relay"');
+    }
+
+    if (
+      config.logLevel !== undefined &&
+      !LOG_LEVELS.includes(config.logLevel)
+    ) {
+      throw new ConfigError(
+        `logLevel must be one of: ${LOG_LEVELS.join(", ")}`,
+      );
+    }
+
+    if (config.reconnect) {
+      const { maxAttempts, initialDelayMs, maxDelayMs } = config.reconnect;
+      if (
+        maxAttempts !== undefined &&
+        (!Number.isInteger(maxAttempts) ||
+          maxAttempts < CONSTRAINTS.RECONNECT_MAX_ATTEMPTS.min ||
+          maxAttempts > CONSTRAINTS.RECONNECT_MAX_ATTEMPTS.max)
+      ) {
+        throw new ConfigError(
+          `reconnect.maxAttempts must be an integer between ${CONSTRAINTS.RECONNECT_MAX_ATTEMPTS.min} and ${CONSTRAINTS.RECONNECT_MAX_ATTEMPTS.max}`,
+        );
+      }
+      if (initialDelayMs !== undefined && initialDelayMs <= 0) {
+        throw new ConfigError("reconnect.initialDelayMs must be positive");
+      }
+      if (maxDelayMs !== undefined && maxDelayMs <= 0) {
+        throw new ConfigError("reconnect.maxDelayMs must be positive");
+      }
+    }
+
+    if (config.changeDetection) {
+      const { compare, stabilityWindow } = config.changeDetection;
+      if (
+        compare !== undefined &&
+        compare !== "exact" &&
+        typeof compare !== "function" &&
+        !(
+          Array.isArray(compare) &&
+          compare.every((path) => typeof path === "string" && path !== "")
+        )
+      ) {
+        throw new ConfigError(
+          'changeDetection.compare must be "exact", an array of key paths, or a function',
+        );
+      }
+      if (
+        stabilityWindow !== undefined &&
+        (!Number.isInteger(stabilityWindow) || stabilityWindow < 1)
+      ) {
+        throw new ConfigError(
+          "changeDetection.stabilityWindow must be a positive integer",
+        );
+      }
+    }
+
+    if (typeof config.history === "object") {
+      const { maxEntries, maxAgeMs } = config.history;
+      if (
+        maxEntries !== undefined &&
+        (!Number.isInteger(maxEntries) || maxEntries < 1)
+      ) {
+        throw new ConfigError("history.maxEntries must be a positive integer");
+      }
+      if (maxAgeMs !== undefined && maxAgeMs <= 0) {
+        throw new ConfigError("history.maxAgeMs must be positive");
+      }
+    }
+
+    if (config.metrics) {
+      const { windowMs, intervalMs } = config.metrics;
+      if (windowMs !== undefined && !(windowMs > 0)) {
+        throw new ConfigError("metrics.windowMs must be positive");
+      }
+      if (intervalMs !== undefined && !(intervalMs > 0)) {
+        throw new ConfigError("metrics.intervalMs must be positive");
+      }
+    }
+
+    if (config.iceRecovery) {
+      const { maxRestarts, disconnectedTimeoutMs } = config.iceRecovery;
+      if (
+        maxRestarts !== undefined &&
+        (!Number.isInteger(maxRestarts) || maxRestarts < 0)
+      ) {
+        throw new ConfigError(
+          "iceRecovery.maxRestarts must be a non-negative integer",
+        );
+      }
+      if (disconnectedTimeoutMs !== undefined && disconnectedTimeoutMs < 0) {
+        throw new ConfigError(
+          "iceRecovery.disconnectedTimeoutMs must be non-negative",
         );
       }
     }
 
-    if (config.processing?.sampling_ratio !== undefined) {
-      const ratio = config.processing.sampling_ratio;
+    if (config.processing) {
+      this.validateProcessing(config.processing);
+    }
+  }
+
+  /**
+   * Validate processing settings against CONSTRAINTS
+   */
+  private validateProcessing(
+    processing: NonNullable<RealtimeVisionConfig["processing"]>,
+  ): void {
+    if (processing.sampling_ratio !== undefined) {
+      const ratio = processing.sampling_ratio;
       if (
         ratio < CONSTRAINTS.SAMPLING_RATIO.min ||
         ratio > CONSTRAINTS.SAMPLING_RATIO.max
       ) {
-        throw new ValidationError(
+        throw new ConfigError(
           `sampling_ratio must be between ${CONSTRAINTS.SAMPLING_RATIO.min} and ${CONSTRAINTS.SAMPLING_RATIO.max}`,
         );
       }
     }
 
-    if (config.processing?.fps !== undefined) {
-      const fps = config.processing.fps;
+    if (processing.fps !== undefined) {
+      const fps = processing.fps;
       if (fps < CONSTRAINTS.FPS.min || fps > CONSTRAINTS.FPS.max) {
-        throw new ValidationError(
+        throw new ConfigError(
           `fps must be between ${CONSTRAINTS.FPS.min} and ${CONSTRAINTS.FPS.max}`,
         );
       }
     }
 
-    if (config.processing?.clip_length_seconds !== undefined) {
-      const clip = config.processing.clip_length_seconds;
+    if (processing.clip_length_seconds !== undefined) {
+      const clip = processing.clip_length_seconds;
       if (
         clip < CONSTRAINTS.CLIP_LENGTH_SECONDS.min ||
         clip > CONSTRAINTS.CLIP_LENGTH_SECONDS.max
       ) {
-        throw new ValidationError(
+        throw new ConfigError(
           `clip_length_seconds must be between ${CONSTRAINTS.CLIP_LENGTH_SECONDS.min} and ${CONSTRAINTS.CLIP_LENGTH_SECONDS.max}`,
         );
       }
     }
 
-    if (config.processing?.delay_seconds !== undefined) {
-      const delay = config.processing.delay_seconds;
+    if (processing.delay_seconds !== undefined) {
+      const delay = processing.delay_seconds;
       if (
         delay < CONSTRAINTS.DELAY_SECONDS.min ||
         delay > CONSTRAINTS.DELAY_SECONDS.max
       ) {
-        throw new ValidationError(
+        throw new ConfigError(
           `delay_seconds must be between ${CONSTRAINTS.DELAY_SECONDS.min} and ${CONSTRAINTS.DELAY_SECONDS.max}`,
         );
       }
@@ -293,43 +875,153 @@ export class RealtimeVision {
   }
 
   /**
-   * Create media stream from the configured source
+   * Validate a stream source
    */
-  private async createMediaStream(source: StreamSource): Promise<MediaStream> {
-    this.logger.debug("Creating media stream from source:", source.type);
-
-    switch (source.type) {
-      case "camera":
-        return await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: { ideal: source.cameraFacing } },
-          audio: false,
-        });
-
-      case "video":
-        const video = document.createElement("video");
-        video.src = URL.createObjectURL(source.file);
-        video.muted = true;
-        video.loop = true;
-        video.playsInline = true;
-
-        this.logger.debug("Loading video file:", source.file.name);
-
-        // Wait for video to be ready
-        await new Promise<void>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error("Video loading timeout after 10 seconds"));
-          }, 10000);
-
-          video.onloadedmetadata = () => {
-            clearTimeout(timeout);
-            this.logger.debug("Video metadata loaded");
-            resolve();
-          };
-
-          video.onerror = (e) => {
-            clearTimeout(timeout);
+  private validateSource(source: StreamSource): void {
+    if (source.type === "camera") {
+      const { cameraFacing, deviceId, constraints } = source;
+      if (
+        cameraFacing !== undefined &&
+        cameraFacing !== "user" &&
+        cameraFacing !== "environment"
+      ) {
+        throw new ConfigError('cameraFacing must be "user" or "environment"');
+      }
+      if (
+        deviceId !== undefined &&
+        (typeof deviceId !== "string" || deviceId === "")
+      ) {
+        throw new ConfigError("camera deviceId must be a non-empty string");
+      }
+      if (
+        constraints !== undefined &&
+        (typeof constraints !== "object" || constraints === null)
+      ) {
+        throw new ConfigError("camera constraints must be an object");
+      }
+    } else if (source.type === "video") {
+      if (!(source.file instanceof File)) {
+        throw new ConfigError("video source must provide a File object");
+      }
+    } else if (source.type === "png-stream") {
+      // Validate optional dimensions
+      if (source.width !== undefined && source.width <= 0) {
+        throw new ConfigError("png-stream width must be positive");
+      }
+      if (source.height !== undefined && source.height <= 0) {
+        throw new ConfigError("png-stream height must be positive");
+      }
+      if (source.targetFps !== undefined) {
+        const fps = source.targetFps;
+        if (fps < CONSTRAINTS.FPS.min || fps > CONSTRAINTS.FPS.max) {
+          throw new ConfigError(
+            `targetFps must be between ${CONSTRAINTS.FPS.min} and ${CONSTRAINTS.FPS.max}`,
+          );
+        }
+      }
+    } else if (source.type === "screen") {
+      const { cursor, displaySurface, width, height, frameRate } = source;
+      if (
+        cursor !== undefined &&
+        !["always", "motion", "never"].includes(cursor)
+      ) {
+        throw new ConfigError(
+          'screen cursor must be "always", "motion", or "never"',
+        );
+      }
+      if (
+        displaySurface !== undefined &&
+        !["monitor", "window", "browser"].includes(displaySurface)
+      ) {
+        throw new ConfigError(
+          'screen displaySurface must be "monitor", "window", or "browser"',
+        );
+      }
+      if (width !== undefined && width <= 0) {
+        throw new ConfigError("screen width must be positive");
+      }
+      if (height !== undefined && height <= 0) {
+        throw new ConfigError("screen height must be positive");
+      }
+      if (
+        frameRate !== undefined &&
+        (frameRate < CONSTRAINTS.FPS.min || frameRate > CONSTRAINTS.FPS.max)
+      ) {
+        throw new ConfigError(
+          `screen frameRate must be between ${CONSTRAINTS.FPS.min} and ${CONSTRAINTS.FPS.max}`,
+        );
+      }
+    } else if (source.type === "media-stream") {
+      const { stream, track } = source;
+      if (stream !== undefined && track !== undefined) {
+        throw new ConfigError(
+          "media-stream source must provide either stream or track, not both",
+        );
+      }
+      if (stream !== undefined) {
+        if (!stream || typeof stream.getVideoTracks !== "function") {
+          throw new ConfigError(
+            "media-stream source stream must be a MediaStream",
+          );
+        }
+      } else if (!track || track.kind !== "video") {
+        throw new ConfigError(
+          "media-stream source must provide a MediaStream or a video MediaStreamTrack",
+        );
+      }
+    } else {
+      throw new ConfigError(
+        'source.type must be "camera", "video", "png-stream", "screen", or "media-stream"',
+      );
+    }
+  }
+
+  /**
+   * Create media stream from the configured source
+   */
+  private async createMediaStream(source: StreamSource): Promise<MediaStream> {
+    this.logger.debug("Creating media stream from source:", source.type);
+
+    switch (source.type) {
+      case "camera":
+        return this.createCameraMediaStream(source);
+
+      case "video":
+        const video = document.createElement("video");
+        video.src = URL.createObjectURL(source.file);
+        video.muted = true;
+        video.loop = true;
+        video.playsInline = true;
+
+        this.logger.debug("Loading video file:", source.file.name);
+
+        // Wait for video to be ready
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            reject(
+              new MediaAccessError(
+                "Video loading timeout after 10 seconds",
+                "unknown",
+              ),
+            );
+          }, 10000);
+
+          video.onloadedmetadata = () => {
+            clearTimeout(timeout);
+            this.logger.debug("Video metadata loaded");
+            resolve();
+          };
+
+          video.onerror = (e) => {
+            clearTimeout(timeout);
             this.logger.error("Video loading error:", e);
-            reject(new Error("Failed to load video file"));
+            reject(
+              new MediaAccessError(
+                "Failed to load video file",
+                "unsupported",
+                e,
+              ),
+            );
           };
 
           if (video.readyState >= 1) {
@@ -343,12 +1035,18 @@ export class RealtimeVision {
 
         const stream = video.captureStream();
         if (!stream) {
-          throw new Error("Failed to capture video stream");
+          throw new MediaAccessError(
+            "Failed to capture video stream",
+            "unsupported",
+          );
         }
 
         const videoTracks = stream.getVideoTracks();
         if (videoTracks.length === 0) {
-          throw new Error("Video stream has no video tracks");
+          throw new MediaAccessError(
+            "Video stream has no video tracks",
+            "not_found",
+          );
         }
 
         this.videoElement = video;
@@ -357,9 +1055,117 @@ export class RealtimeVision {
       case "png-stream":
         return this.createPngStreamMediaStream(source);
 
+      case "screen":
+        return this.createScreenMediaStream(source);
+
+      case "media-stream":
+        return this.useExternalMediaStream(source);
+
       default:
-        throw new Error(`Unknown source type: ${(source as any).type}`);
+        throw new ConfigError(
+          `Unknown source type: ${(source as { type: unknown }).type}`,
+        );
+    }
+  }
+
+  /**
+   * Open a camera with getUserMedia
+   */
+  private async createCameraMediaStream(
+    source: CameraSource,
+  ): Promise<MediaStream> {
+    const video: MediaTrackConstraints = {
+      ...(source.cameraFacing && {
+        facingMode: { ideal: source.cameraFacing },
+      }),
+      ...(source.deviceId && { deviceId: { exact: source.deviceId } }),
+      ...source.constraints,
+    };
+
+    this.logger.debug("Requesting camera:", video);
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: Object.keys(video).length > 0 ? video : true,
+        audio: false,
+      });
+    } catch (error) {
+      throw toMediaAccessError(error);
+    }
+  }
+
+  /**
+   * Capture the screen, a window or a tab with getDisplayMedia
+   */
+  private async createScreenMediaStream(
+    source: ScreenSource,
+  ): Promise<MediaStream> {
+    if (typeof navigator.mediaDevices?.getDisplayMedia !== "function") {
+      throw new MediaAccessError(
+        "Screen capture is not supported in this browser",
+        "unsupported",
+      );
+    }
+
+    // cursor is not yet part of the DOM typings
+    const video: MediaTrackConstraints & { cursor?: string } = {
+      ...(source.cursor && { cursor: source.cursor }),
+      ...(source.displaySurface && { displaySurface: source.displaySurface }),
+      ...(source.width && { width: { ideal: source.width } }),
+      ...(source.height && { height: { ideal: source.height } }),
+      ...(source.frameRate && { frameRate: { ideal: source.frameRate } }),
+    };
+
+    this.logger.debug("Requesting display media:", video);
+
+    try {
+      return await navigator.mediaDevices.getDisplayMedia({
+        video: Object.keys(video).length > 0 ? video : true,
+        audio: false,
+      });
+    } catch (error) {
+      throw toMediaAccessError(error);
+    }
+  }
+
+  /**
+   * Use an app-owned MediaStream or track. Its tracks are never stopped by
+   * cleanup().
+   */
+  private useExternalMediaStream(source: MediaStreamSource): MediaStream {
+    this.ownsMediaTracks = false;
+
+    if (source.stream) {
+      return source.stream;
+    }
+
+    if (source.track.readyState === "ended") {
+      throw new MediaAccessError(
+        "media-stream source track has already ended",
+        "not_found",
+      );
     }
+    return new MediaStream([source.track]);
+  }
+
+  /**
+   * Stop the session gracefully when the source track ends on its own,
+   * e.g. when the user clicks the browser's "Stop sharing" button
+   */
+  private watchSourceTrack(
+    track: MediaStreamTrack,
+    source: StreamSource,
+  ): void {
+    const onEnded = () => {
+      this.logger.info("Source track ended:", source.type);
+      this.emit("sourceEnded", { type: source.type });
+      this.stop().catch((error) => {
+        this.logger.error("Failed to stop after source ended:", error);
+      });
+    };
+
+    track.addEventListener("ended", onEnded);
+    this.unwatchSourceTrack = () => track.removeEventListener("ended", onEnded);
   }
 
   /**
@@ -382,7 +1188,10 @@ export class RealtimeVision {
     });
 
     if (!this.canvasContext) {
-      throw new Error("Failed to create canvas 2D context");
+      throw new MediaAccessError(
+        "Failed to create canvas 2D context",
+        "unsupported",
+      );
     }
 
     // Fill with black initially
@@ -404,12 +1213,18 @@ export class RealtimeVision {
     const stream = this.canvasElement.captureStream(targetFps);
 
     if (!stream) {
-      throw new Error("Failed to capture stream from canvas");
+      throw new MediaAccessError(
+        "Failed to capture stream from canvas",
+        "unsupported",
+      );
     }
 
     const videoTracks = stream.getVideoTracks();
     if (videoTracks.length === 0) {
-      throw new Error("Canvas stream has no video tracks");
+      throw new MediaAccessError(
+        "Canvas stream has no video tracks",
+        "not_found",
+      );
     }
 
     this.logger.debug("Canvas stream created with target FPS:", targetFps);
@@ -464,310 +1279,1508 @@ export class RealtimeVision {
       return DEFAULTS.FALLBACK_FPS;
     }
 
-    const videoTracks = stream.getVideoTracks();
-    if (!videoTracks || videoTracks.length === 0) {
-      this.logger.warn("No video tracks found, using fallback FPS");
-      return DEFAULTS.FALLBACK_FPS;
-    }
+    const videoTracks = stream.getVideoTracks();
+    if (!videoTracks || videoTracks.length === 0) {
+      this.logger.warn("No video tracks found, using fallback FPS");
+      return DEFAULTS.FALLBACK_FPS;
+    }
+
+    const videoTrack = videoTracks[0];
+    if (!videoTrack) {
+      this.logger.warn("First video track is null, using fallback FPS");
+      return DEFAULTS.FALLBACK_FPS;
+    }
+
+    // For camera sources, get FPS from track settings
+    if (source.type === "camera") {
+      const settings = videoTrack.getSettings();
+      const fps = settings.frameRate ?? DEFAULTS.FALLBACK_FPS;
+      this.logger.debug("Detected camera FPS:", fps);
+      return fps;
+    }
+
+    // For screen capture and app-owned streams, the track reports its rate
+    if (source.type === "screen" || source.type === "media-stream") {
+      const settings = videoTrack.getSettings();
+      const fps =
+        settings.frameRate ??
+        (source.type === "screen" ? source.frameRate : undefined) ??
+        DEFAULTS.FALLBACK_FPS;
+      this.logger.debug("Detected", source.type, "FPS:", fps);
+      return fps;
+    }
+
+    // For video file sources, use fallback FPS
+    if (source.type === "video" && this.videoElement) {
+      await new Promise<void>((resolve, reject) => {
+        if (this.videoElement!.readyState >= 1) {
+          resolve();
+        } else {
+          this.videoElement!.onloadedmetadata = () => resolve();
+          this.videoElement!.onerror = () =>
+            reject(
+              new MediaAccessError("Failed to load video metadata", "unknown"),
+            );
+        }
+      });
+
+      this.logger.debug("Using fallback FPS for video file");
+      return DEFAULTS.FALLBACK_FPS;
+    }
+
+    // For PNG stream, use the target FPS from config
+    if (source.type === "png-stream") {
+      const fps = source.targetFps ?? DEFAULTS.FALLBACK_FPS;
+      this.logger.debug("Using PNG stream target FPS:", fps);
+      return fps;
+    }
+
+    return DEFAULTS.FALLBACK_FPS;
+  }
+
+  /**
+   * Get processing configuration with defaults applied
+   */
+  private getProcessingConfig(detectedFps: number): StreamProcessingConfig {
+    const userProcessing = this.config.processing || {};
+
+    return {
+      sampling_ratio: userProcessing.sampling_ratio ?? DEFAULTS.SAMPLING_RATIO,
+      fps: userProcessing.fps ?? detectedFps,
+      clip_length_seconds:
+        userProcessing.clip_length_seconds ?? DEFAULTS.CLIP_LENGTH_SECONDS,
+      delay_seconds: userProcessing.delay_seconds ?? DEFAULTS.DELAY_SECONDS,
+    };
+  }
+
+  /**
+   * Get the effective source configuration
+   */
+  private getSource(): StreamSource {
+    return this.source;
+  }
+
+  /**
+   * Start the vision stream
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      throw new InvalidStateError("Vision stream already running");
+    }
+    if (!this.stateMachine.can("acquiring-media")) {
+      throw new InvalidStateError(
+        `Cannot start vision stream while ${this.stateMachine.state}`,
+      );
+    }
+
+    this.stateMachine.transition("acquiring-media");
+    this.hasReceivedResult = false;
+    this.degradedReasons.clear();
+    this.changeDetector.reset();
+    this.metrics.reset();
+
+    try {
+      this.activePrompt = this.config.prompt;
+      if (this.promptScheduler) {
+        this.promptScheduler.reset();
+        this.activePrompt = this.promptScheduler.begin();
+      }
+
+      const source = this.getSource();
+      this.logger.debug("Starting stream with source type:", source.type);
+
+      if (source.type === "video") {
+        this.logger.debug("Video file:", {
+          name: source.file.name,
+          size: source.file.size,
+          type: source.file.type,
+        });
+
+        if (!source.file || !(source.file instanceof File)) {
+          throw new ConfigError("Invalid video file");
+        }
+      }
+
+      await this.acquireSource(source);
+      this.assertStarting("acquiring-media");
+
+      this.stateMachine.transition("negotiating");
+      await this.connectStream();
+      this.assertStarting("negotiating");
+
+      this.stateMachine.transition("waiting-for-result");
+      this.startMetricsReporting();
+      this.promptScheduler?.start();
+      await this.startPrompts();
+
+      this.watchPageHide();
+      if (this.config.pauseWhenHidden) {
+        this.watchVisibility();
+      }
+    } catch (error) {
+      // stop() was called while starting, resources are released silently
+      if (
+        this.stateMachine.state === "stopping" ||
+        this.stateMachine.state === "stopped"
+      ) {
+        await this.cleanup();
+        throw error;
+      }
+      await this.handleFatalError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a source as the current media stream, watch its video track and
+   * detect its frame rate
+   */
+  private async acquireSource(source: StreamSource): Promise<MediaStreamTrack> {
+    this.mediaStream = await this.createMediaStream(source);
+    const videoTrack = this.mediaStream.getVideoTracks()[0];
+    if (!videoTrack) {
+      throw new MediaAccessError("No video track available", "not_found");
+    }
+
+    if (source.type === "screen" || source.type === "media-stream") {
+      this.watchSourceTrack(videoTrack, source);
+    }
+
+    this.detectedFps = await this.getStreamFps(this.mediaStream, source);
+    return videoTrack;
+  }
+
+  /**
+   * Attach the parsed value to a result, validating it against outputSchema
+   * when one is configured
+   */
+  private parseResult(
+    result: StreamInferenceResult,
+  ): RealtimeVisionResult<InferResult<T, S>> | ResultValidationError {
+    if (result.ok === false) {
+      return { ...result, ok: false, parsed: null };
+    }
+
+    const schema = this.config.outputSchema;
+    if (!schema) {
+      return {
+        ...result,
+        ok: true,
+        parsed: result.result as InferResult<T, S>,
+      };
+    }
+
+    let value: unknown;
+    try {
+      value = parseJsonResult(result.result);
+    } catch (error) {
+      return new ResultValidationError(
+        "Result is not valid JSON",
+        result.result,
+        [],
+        error,
+      );
+    }
+
+    const issues = validateSchema(schema, value);
+    if (issues.length > 0) {
+      return new ResultValidationError(
+        `Result does not match outputSchema: ${issues[0]}`,
+        result.result,
+        issues,
+      );
+    }
+
+    return { ...result, ok: true, parsed: value as InferResult<T, S> };
+  }
+
+  /**
+   * Tag a result with its schedule entry and add it to the history
+   */
+  private recordHistory(
+    result: RealtimeVisionResult<InferResult<T, S>>,
+    receivedAt: number,
+    validationIssues?: string[],
+  ): void {
+    const scheduleEntry = this.promptScheduler?.getEntryForPrompt(
+      result.prompt,
+    );
+    if (scheduleEntry) {
+      result.scheduleEntry = scheduleEntry;
+    }
+    this.history
+      ?.record(result, receivedAt, validationIssues)
+      .catch((error) => {
+        this.logger.warn("Failed to record result history:", error);
+      });
+  }
+
+  /**
+   * Abort start() if the session left the expected state while awaiting
+   */
+  private assertStarting(expected: RealtimeVisionState): void {
+    if (this.stateMachine.state !== expected) {
+      throw new InvalidStateError(
+        `Vision stream start aborted (state: ${this.stateMachine.state})`,
+      );
+    }
+  }
+
+  /**
+   * Create the peer connection, negotiate a new stream on the server and
+   * attach the keepalive and results WebSocket to it
+   */
+  private async connectStream(): Promise<void> {
+    if (!this.mediaStream) {
+      throw new MediaAccessError("No media stream available", "not_found");
+    }
+
+    const videoTrack = this.mediaStream.getVideoTracks()[0];
+    if (!videoTrack) {
+      throw new MediaAccessError("No video track available", "not_found");
+    }
+
+    // Set up WebRTC peer connection
+    const iceServers = await this.resolveIceServers();
+    this.logger.debug(
+      "Creating peer connection with",
+      iceServers.length,
+      "ICE servers",
+    );
+    const peerConnection = new RTCPeerConnection({
+      iceServers,
+      iceTransportPolicy:
+        this.config.iceTransportPolicy ?? DEFAULTS.ICE_TRANSPORT_POLICY,
+    });
+    this.peerConnection = peerConnection;
+
+    // Set up ICE logging
+    peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.logger.debug("ICE candidate:", {
+          type: event.candidate.type,
+          protocol: event.candidate.protocol,
+        });
+      } else {
+        this.logger.debug("ICE gathering complete");
+      }
+    };
+
+    peerConnection.oniceconnectionstatechange = () => {
+      if (this.peerConnection !== peerConnection) {
+        return;
+      }
+      this.logger.debug(
+        "ICE connection state:",
+        peerConnection.iceConnectionState,
+      );
+      this.emit("iceConnectionStateChange", {
+        state: peerConnection.iceConnectionState,
+      });
+      this.handleIceConnectionStateChange(peerConnection.iceConnectionState);
+    };
+
+    this.videoSender = peerConnection.addTrack(videoTrack, this.mediaStream);
+    // A rebuilt stream must not send frames while paused
+    if (this.stateMachine.state === "paused") {
+      await this.videoSender.replaceTrack(null);
+    }
+
+    // Create and set local offer
+    try {
+      const offer = await peerConnection.createOffer();
+      await peerConnection.setLocalDescription(offer);
+    } catch (error) {
+      throw new WebRtcNegotiationError("Failed to create WebRTC offer", error);
+    }
+
+    if (!peerConnection.localDescription) {
+      throw new WebRtcNegotiationError("Failed to create local description");
+    }
+
+    // Create stream on server
+    this.logger.debug("Creating stream on server");
+    const response = await this.client.createStream({
+      webrtc: {
+        type: "offer",
+        sdp: peerConnection.localDescription.sdp,
+      },
+      processing: this.getProcessingConfig(this.detectedFps),
+      inference: {
+        prompt: this.activePrompt,
+        backend: this.config.backend ?? DEFAULTS.BACKEND,
+        model: this.config.model ?? DEFAULTS.MODEL,
+        output_schema_json: this.config.outputSchema,
+      },
+    });
+
+    this.logger.debug("Backend response received:", {
+      stream_id: response.stream_id,
+      has_turn_servers: !!response.turn_servers,
+    });
+    // Set before anything else can fail, so cleanup closes the stream
+    this.streamId = response.stream_id;
+
+    // Set remote description
+    try {
+      await peerConnection.setRemoteDescription(response.webrtc);
+    } catch (error) {
+      throw new WebRtcNegotiationError("Failed to apply WebRTC answer", error);
+    }
+
+    this.hasReceivedResult = false;
+    this.logger.info("Stream started:", this.streamId);
+
+    if (response.turn_servers?.length) {
+      await this.applyServerIceServers(peerConnection, response.turn_servers);
+    }
+
+    // Set up keepalive
+    this.setupKeepalive(response.lease?.ttl_seconds);
+
+    // Connect WebSocket for results
+    this.setupWebSocket(response.stream_id);
+  }
+
+  /**
+   * ICE servers for a new peer connection: the app's, then the ones the
+   * server returned for the previous stream of this session
+   */
+  private async resolveIceServers(): Promise<RTCIceServer[]> {
+    if (this.config.iceServers) {
+      return this.config.iceServers;
+    }
+    if (this.config.iceServersProvider) {
+      try {
+        return await this.config.iceServersProvider();
+      } catch (error) {
+        throw new WebRtcNegotiationError("Failed to get ICE servers", error);
+      }
+    }
+    return this.serverIceServers;
+  }
+
+  /**
+   * Add the TURN servers returned on stream creation to the peer
+   * connection. The connection keeps its direct candidates and only
+   * gathers relay ones on its next ICE restart, unless it is relay-only
+   * and has nothing to connect with yet. Servers configured by the app
+   * take precedence.
+   */
+  private async applyServerIceServers(
+    peerConnection: RTCPeerConnection,
+    turnServers: RTCIceServer[],
+  ): Promise<void> {
+    if (this.config.iceServers || this.config.iceServersProvider) {
+      return;
+    }
+    const unchanged =
+      JSON.stringify(turnServers) === JSON.stringify(this.serverIceServers);
+    this.serverIceServers = turnServers;
+    if (unchanged) {
+      return;
+    }
+
+    this.logger.debug("Applying TURN servers from server");
+    try {
+      const configuration = peerConnection.getConfiguration();
+      peerConnection.setConfiguration({
+        ...configuration,
+        iceServers: turnServers,
+      });
+      if (configuration.iceTransportPolicy === "relay") {
+        await this.negotiateIceRestart(peerConnection, this.streamId!);
+      }
+    } catch (error) {
+      // Reported through ICE recovery if the connection then fails
+      this.logger.warn("Failed to apply TURN servers:", error);
+    }
+  }
+
+  /**
+   * Send the API key or token as the first message. A cached credential is
+   * sent right away; otherwise the token provider is awaited.
+   */
+  private authenticateWebSocket(ws: WebSocket): void {
+    const send = (credential: string) =>
+      ws.send(JSON.stringify({ api_key: credential }));
+
+    const credential = this.client.peekCredential();
+    if (credential) {
+      send(credential);
+      return;
+    }
+    this.client.getCredential().then(
+      (token) => {
+        if (this.webSocket === ws) {
+          send(token);
+        }
+      },
+      (error) => {
+        if (this.webSocket === ws) {
+          this.handleFatalError(error).catch((cleanupError) => {
+            this.logger.error("Failed to handle fatal error:", cleanupError);
+          });
+        }
+      },
+    );
+  }
+
+  /**
+   * React to ICE connection state changes by restarting ICE when the
+   * media path is lost (e.g. switching from Wi-Fi to LTE)
+   */
+  private handleIceConnectionStateChange(state: RTCIceConnectionState): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    switch (state) {
+      case "connected":
+      case "completed":
+        this.clearIceDisconnectedTimeout();
+        if (!this.isRecovering) {
+          this.completeIceRestart();
+        }
+        break;
+
+      case "disconnected":
+        // "disconnected" is often transient, give ICE a chance to recover
+        if (this.iceDisconnectedTimeout === null) {
+          const timeoutMs =
+            this.config.iceRecovery?.disconnectedTimeoutMs ??
+            DEFAULTS.ICE_DISCONNECTED_TIMEOUT_MS;
+          this.iceDisconnectedTimeout = window.setTimeout(() => {
+            this.iceDisconnectedTimeout = null;
+            if (this.peerConnection?.iceConnectionState === "disconnected") {
+              this.recoverConnection("ice-disconnected");
+            }
+          }, timeoutMs);
+        }
+        break;
+
+      case "failed":
+        this.clearIceDisconnectedTimeout();
+        this.recoverConnection("ice-failed");
+        break;
+    }
+  }
+
+  /**
+   * Leave the degraded state once ICE is connected again after a restart
+   */
+  private completeIceRestart(): void {
+    if (this.iceRestartAttempts === 0) {
+      return;
+    }
+    const attempts = this.iceRestartAttempts;
+    this.iceRestartAttempts = 0;
+    this.logger.info("ICE connection recovered");
+    this.clearDegraded("ice");
+    this.emit("recovered", {
+      strategy: "ice-restart",
+      attempts,
+      streamId: this.streamId!,
+    });
+  }
+
+  private clearIceDisconnectedTimeout(): void {
+    if (this.iceDisconnectedTimeout !== null) {
+      window.clearTimeout(this.iceDisconnectedTimeout);
+      this.iceDisconnectedTimeout = null;
+    }
+  }
+
+  /**
+   * Recover the media path: ICE restart first, then rebuild the stream
+   * under the same config if restarts are exhausted or fail
+   */
+  private async recoverConnection(
+    reason: "ice-disconnected" | "ice-failed",
+  ): Promise<void> {
+    if (this.isRecovering || !this.isRunning) {
+      return;
+    }
+    this.isRecovering = true;
+    this.markDegraded("ice");
+
+    try {
+      const maxRestarts =
+        this.config.iceRecovery?.maxRestarts ?? DEFAULTS.ICE_MAX_RESTARTS;
+
+      if (this.iceRestartAttempts < maxRestarts) {
+        this.iceRestartAttempts++;
+        this.emit("recovering", {
+          reason,
+          strategy: "ice-restart",
+          attempt: this.iceRestartAttempts,
+        });
+
+        try {
+          await this.restartIce();
+          // "connected" may have arrived while the restart was in flight,
+          // when it is ignored
+          const iceState = this.peerConnection?.iceConnectionState;
+          if (iceState === "connected" || iceState === "completed") {
+            this.completeIceRestart();
+          }
+          return;
+        } catch (error) {
+          this.logger.warn("ICE restart failed:", error);
+        }
+      }
+
+      if (this.config.iceRecovery?.rebuildOnFailure === false) {
+        throw new WebRtcNegotiationError(
+          `Connection lost (${reason}) and could not be recovered`,
+        );
+      }
+
+      this.emit("recovering", { reason, strategy: "rebuild", attempt: 1 });
+      await this.rebuildStream();
+      this.iceRestartAttempts = 0;
+      this.clearDegraded("ice");
+      this.emit("recovered", {
+        strategy: "rebuild",
+        attempts: 1,
+        streamId: this.streamId!,
+      });
+    } catch (error) {
+      if (this.isRunning) {
+        await this.handleFatalError(error);
+      }
+    } finally {
+      this.isRecovering = false;
+    }
+  }
+
+  /**
+   * Perform an ICE restart and renegotiate the SDP with the server
+   */
+  private async restartIce(): Promise<void> {
+    const peerConnection = this.peerConnection;
+    const streamId = this.streamId;
+    if (!peerConnection || !streamId) {
+      throw new WebRtcNegotiationError("No active peer connection");
+    }
+
+    this.logger.info(
+      "Restarting ICE (attempt",
+      this.iceRestartAttempts,
+      "of",
+      this.config.iceRecovery?.maxRestarts ?? DEFAULTS.ICE_MAX_RESTARTS,
+      ")",
+    );
+    await this.negotiateIceRestart(peerConnection, streamId);
+  }
+
+  /**
+   * Create an ICE restart offer and renegotiate the SDP with the server
+   */
+  private async negotiateIceRestart(
+    peerConnection: RTCPeerConnection,
+    streamId: string,
+  ): Promise<void> {
+    const offer = await peerConnection.createOffer({ iceRestart: true });
+    await peerConnection.setLocalDescription(offer);
+
+    if (!peerConnection.localDescription) {
+      throw new WebRtcNegotiationError("Failed to create local description");
+    }
+
+    const response = await this.client.renegotiate(streamId, {
+      webrtc: { type: "offer", sdp: peerConnection.localDescription.sdp },
+    });
+
+    if (this.peerConnection !== peerConnection) {
+      return;
+    }
+    await peerConnection.setRemoteDescription(response.webrtc);
+    this.logger.debug("ICE restart negotiated");
+  }
+
+  /**
+   * Tear down the peer connection, keepalive and WebSocket and create a new
+   * stream under the same config, keeping the local media stream
+   */
+  private async rebuildStream(): Promise<void> {
+    this.logger.info("Rebuilding stream");
+    this.closeConnection();
+    await this.connectStream();
+
+    // stop() may have been called while the new stream was being negotiated
+    if (!this.isRunning) {
+      this.closeConnection();
+    }
+  }
+
+  /**
+   * Close the server-facing resources (keepalive, WebSocket, peer
+   * connection) while leaving local media untouched
+   */
+  private closeConnection(): void {
+    if (this.keepaliveInterval) {
+      window.clearInterval(this.keepaliveInterval);
+      this.keepaliveInterval = null;
+    }
+
+    if (this.reconnectTimeout !== null) {
+      window.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+    this.degradedReasons.delete("websocket");
+
+    if (this.webSocket) {
+      const ws = this.webSocket;
+      this.webSocket = null;
+      ws.close();
+    }
+
+    this.clearIceDisconnectedTimeout();
+
+    if (this.peerConnection) {
+      const peerConnection = this.peerConnection;
+      this.peerConnection = null;
+      peerConnection.close();
+    }
+    this.videoSender = null;
+
+    // End the stream on the server so it stops billing before its lease
+    // expires
+    if (this.streamId) {
+      const streamId = this.streamId;
+      this.streamClosing = this.client
+        .closeStream(streamId, { retry: false })
+        .then(
+          () => this.logger.debug("Stream closed:", streamId),
+          (error) => this.logger.warn("Failed to close stream:", error),
+        );
+    }
+    this.streamId = null;
+  }
+
+  /**
+   * Close the stream when the page is unloaded, where stop() would not
+   * get to finish its request. A page kept in the back/forward cache may
+   * be restored, so its stream is left to the lease.
+   */
+  private watchPageHide(): void {
+    const onPageHide = (event: PageTransitionEvent) => {
+      if (this.streamId && !event.persisted) {
+        this.client.closeStreamOnUnload(this.streamId);
+      }
+    };
+
+    window.addEventListener("pagehide", onPageHide);
+    this.unwatchPageHide = () =>
+      window.removeEventListener("pagehide", onPageHide);
+  }
+
+  /**
+   * Set up keepalive interval with error handling
+   */
+  private setupKeepalive(ttlSeconds: number | undefined): void {
+    if (!ttlSeconds) {
+      return;
+    }
+
+    const intervalMs = (ttlSeconds / 2) * 1000;
+    this.logger.debug("Setting up keepalive with interval:", intervalMs, "ms");
+
+    this.keepaliveInterval = window.setInterval(async () => {
+      try {
+        if (this.streamId) {
+          const streamId = this.streamId;
+          const renewStart = Date.now();
+          let response;
+          try {
+            response = await this.client.renewLease(streamId);
+          } catch (error) {
+            this.recordLeaseRenewal(renewStart, null);
+            throw error;
+          }
+          this.recordLeaseRenewal(renewStart, response.ttl_seconds);
+          this.logger.debug("Lease renewed");
+          this.emit("leaseRenewed", {
+            streamId,
+            ttlSeconds: response.ttl_seconds,
+          });
+        }
+      } catch (error) {
+        this.logger.error("Keepalive failed:", error);
+        // A 404 on keepalive means the server already dropped the stream
+        const keepaliveError =
+          error instanceof NotFoundError
+            ? new LeaseExpiredError(
+                `Lease expired: ${error.message}`,
+                this.streamId ?? undefined,
+                error,
+              )
+            : error;
+        await this.handleFatalError(keepaliveError);
+      }
+    }, intervalMs);
+  }
+
+  private recordLeaseRenewal(
+    startedAt: number,
+    ttlSeconds: number | null,
+  ): void {
+    const now = Date.now();
+    const renewal: LeaseRenewal = {
+      timestamp: now,
+      ok: ttlSeconds !== null,
+      ttlSeconds,
+      durationMs: now - startedAt,
+    };
+    this.metrics.recordLeaseRenewal(renewal);
+  }
+
+  /**
+   * Emit a metrics event every metrics.intervalMs until cleanup
+   */
+  private startMetricsReporting(): void {
+    const intervalMs =
+      this.config.metrics?.intervalMs ?? DEFAULTS.METRICS_INTERVAL_MS;
+    this.metricsInterval = window.setInterval(async () => {
+      const metrics = this.metrics.snapshot(
+        await this.readVideoStats("interval"),
+      );
+      if (this.isRunning) {
+        this.emit("metrics", metrics);
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Read outbound video stats from the peer connection, or null when
+   * there is none or getStats() fails
+   */
+  private async readVideoStats(
+    reader: StatsReader,
+  ): Promise<OutboundVideoStats | null> {
+    if (!this.peerConnection) {
+      return null;
+    }
+    try {
+      return this.metrics.readVideoStats(
+        await this.peerConnection.getStats(),
+        reader,
+      );
+    } catch (error) {
+      this.logger.warn("Failed to read WebRTC stats:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Route WebSocket messages that are not inference results
+   */
+  private handleServerMessage(
+    decoded: Exclude<DecodedServerMessage, { kind: "result" }>,
+  ): void {
+    switch (decoded.kind) {
+      case "error":
+        this.logger.warn(
+          "Server error:",
+          decoded.message.message ?? decoded.message.error,
+        );
+        this.emit("serverError", decoded.message);
+        break;
+      case "lease_expiring":
+        this.logger.debug(
+          "Lease expiring in",
+          decoded.message.ttl_seconds,
+          "s",
+        );
+        this.emit("leaseExpiring", {
+          streamId: decoded.message.stream_id,
+          ttlSeconds: decoded.message.ttl_seconds,
+        });
+        break;
+      case "lease_expired":
+        this.handleFatalError(
+          new LeaseExpiredError("Lease expired", decoded.message.stream_id),
+        ).catch((cleanupError) => {
+          this.logger.error("Failed to handle fatal error:", cleanupError);
+        });
+        break;
+      case "unknown":
+        this.logger.debug("Unhandled WebSocket message:", decoded.message.type);
+        this.emit("serverMessage", decoded.message);
+        break;
+    }
+  }
+
+  /**
+   * Set up WebSocket connection with error handling
+   */
+  private setupWebSocket(streamId: string): void {
+    this.logger.debug("Connecting WebSocket for stream:", streamId);
+    const ws = this.client.connectWebSocket(streamId);
+    this.webSocket = ws;
+    this.emit("webSocketStateChange", { state: "connecting" });
+
+    ws.onopen = () => {
+      this.logger.debug("WebSocket connected");
+      this.authenticateWebSocket(ws);
+      this.emit("webSocketStateChange", { state: "open" });
+
+      if (this.reconnectAttempts > 0) {
+        const attempts = this.reconnectAttempts;
+        this.reconnectAttempts = 0;
+        this.logger.info("WebSocket reconnected after", attempts, "attempt(s)");
+        this.clearDegraded("websocket");
+        this.emit("reconnected", { attempts });
+      }
+    };
+
+    ws.onmessage = (event) => {
+      const receivedAt = Date.now();
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch (error) {
+        const parseError = new WebSocketError(
+          `Failed to parse WebSocket message: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          error,
+        );
+        this.handleNonFatalError(parseError);
+        return;
+      }
+      this.webSocketAuthRetried = false;
+
+      let decoded: DecodedServerMessage;
+      try {
+        decoded = decodeServerMessage(data);
+      } catch (error) {
+        this.handleNonFatalError(
+          error instanceof ProtocolError
+            ? error
+            : new ProtocolError(
+                `Failed to decode WebSocket message: ${error instanceof Error ? error.message : String(error)}`,
+                [],
+                data,
+              ),
+        );
+        return;
+      }
+      if (decoded.kind !== "result") {
+        this.handleServerMessage(decoded);
+        return;
+      }
+
+      const result = decoded.message;
+      this.hasReceivedResult = true;
+      this.metrics.recordResult(result, receivedAt);
+      if (this.stateMachine.state === "waiting-for-result") {
+        this.stateMachine.transition("running");
+      }
+
+      const parsed = this.parseResult(result);
+      if (parsed instanceof ResultValidationError) {
+        // Kept in the history as a failed result, where it is most useful
+        this.recordHistory(
+          { ...result, ok: false, parsed: null, error: parsed.message },
+          receivedAt,
+          parsed.issues,
+        );
+        this.handleNonFatalError(parsed);
+        return;
+      }
+      this.recordHistory(parsed, receivedAt);
+      this.emit("result", parsed);
+
+      if (parsed.ok) {
+        const change = this.changeDetector.push(parsed);
+        if (change) {
+          this.emit("change", change);
+        }
+      }
+    };
+
+    ws.onerror = () => {
+      // A close event always follows an error; reconnection is handled there
+      this.logger.warn("WebSocket error occurred");
+    };
+
+    ws.onclose = (event) => {
+      // Ignore close events from sockets that have already been replaced
+      if (this.webSocket !== ws) {
+        return;
+      }
+      this.webSocket = null;
+      this.emit("webSocketStateChange", { state: "closed", code: event.code });
+
+      if (!this.isRunning) {
+        this.logger.debug("WebSocket closed");
+        return;
+      }
+
+      if (
+        event.code === WS_AUTH_FAILED_CLOSE_CODE &&
+        this.config.auth &&
+        !this.webSocketAuthRetried
+      ) {
+        this.logger.warn("WebSocket token rejected, retrying with a new one");
+        this.webSocketAuthRetried = true;
+        this.client.invalidateCredential();
+        this.setupWebSocket(streamId);
+        return;
+      }
+
+      if (event.code === WS_AUTH_FAILED_CLOSE_CODE) {
+        this.logger.error("WebSocket authentication failed");
+        const error = new WebSocketError(
+          "WebSocket authentication failed: Invalid or revoked API key",
+          event.code,
+        );
+        this.handleFatalError(error).catch((cleanupError) => {
+          this.logger.error("Failed to handle fatal error:", cleanupError);
+        });
+        return;
+      }
+
+      this.logger.warn("WebSocket closed unexpectedly:", event.code);
+      this.scheduleReconnect(streamId, event.code);
+    };
+  }
+
+  /**
+   * Schedule a WebSocket reconnect using exponential backoff with jitter
+   */
+  private scheduleReconnect(streamId: string, closeCode?: number): void {
+    const maxAttempts =
+      this.config.reconnect?.maxAttempts ?? DEFAULTS.RECONNECT_MAX_ATTEMPTS;
+
+    if (this.reconnectAttempts >= maxAttempts) {
+      const error = new WebSocketError(
+        `WebSocket closed unexpectedly and ${this.reconnectAttempts} reconnect attempt(s) failed`,
+        closeCode,
+      );
+      this.handleFatalError(error).catch((cleanupError) => {
+        this.logger.error("Failed to handle fatal error:", cleanupError);
+      });
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.markDegraded("websocket");
+    const delayMs = this.getReconnectDelay(this.reconnectAttempts);
+    this.logger.info(
+      `Reconnecting WebSocket in ${delayMs}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`,
+    );
+    this.emit("reconnecting", {
+      attempt: this.reconnectAttempts,
+      delayMs,
+    });
+
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (!this.isRunning || this.streamId !== streamId) {
+        return;
+      }
+      try {
+        this.setupWebSocket(streamId);
+      } catch (error) {
+        this.logger.warn("WebSocket reconnect failed:", error);
+        this.scheduleReconnect(streamId, closeCode);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Compute the backoff delay for a reconnect attempt ("equal jitter":
+   * half of the exponential delay is fixed, the other half is random)
+   */
+  private getReconnectDelay(attempt: number): number {
+    const initialDelay =
+      this.config.reconnect?.initialDelayMs ??
+      DEFAULTS.RECONNECT_INITIAL_DELAY_MS;
+    const maxDelay =
+      this.config.reconnect?.maxDelayMs ?? DEFAULTS.RECONNECT_MAX_DELAY_MS;
+
+    const exponential = Math.min(
+      maxDelay,
+      initialDelay * Math.pow(2, attempt - 1),
+    );
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Handle non-fatal errors (report but don't stop stream)
+   */
+  private handleNonFatalError(error: Error): void {
+    this.logger.warn("Non-fatal error:", error.message);
+    this.emit("error", { error, fatal: false });
+  }
+
+  /**
+   * Handle fatal errors (stop stream and report)
+   */
+  private async handleFatalError(error: unknown): Promise<void> {
+    this.logger.error("Fatal error:", error);
+
+    // Already failed or stopped by the caller: nothing left to tear down
+    if (!this.stateMachine.can("failed")) {
+      return;
+    }
+    this.stateMachine.transition("failed");
+    await this.cleanup();
+
+    const normalizedError =
+      error instanceof Error ? error : new OvershootError(String(error));
+
+    this.emit("error", { error: normalizedError, fatal: true });
+  }
+
+  /**
+   * Update the prompt/task while stream is running. Calls are sent one at
+   * a time, in call order.
+   */
+  async updatePrompt(prompt: string): Promise<void> {
+    await this.sendPrompt(prompt);
+    this.config = { ...this.config, prompt: this.activePrompt };
+  }
+
+  /**
+   * Send a prompt to the stream and make it the active prompt
+   */
+  private async sendPrompt(prompt: string): Promise<void> {
+    if (!this.isRunning || !this.streamId) {
+      throw new InvalidStateError("Vision stream not running");
+    }
+
+    if (!prompt || typeof prompt !== "string") {
+      throw new ConfigError("prompt must be a non-empty string");
+    }
+
+    // Queued behind earlier calls, so updates reach the server in order
+    const update = this.promptUpdates.then(async () => {
+      if (!this.isRunning || !this.streamId) {
+        throw new InvalidStateError("Vision stream not running");
+      }
+      this.logger.debug("Updating prompt");
+      const response = await this.client.updatePrompt(this.streamId, prompt);
+      this.applyStreamConfig({}, response);
+      this.activePrompt = response.prompt || prompt;
+      this.logger.info("Prompt updated");
+    });
+    this.promptUpdates = update.catch(() => {});
+    return update;
+  }
+
+  /**
+   * Get the prompt scheduler, or null without a promptSchedule
+   */
+  getPromptScheduler(): PromptScheduler | null {
+    return this.promptScheduler;
+  }
+
+  /**
+   * Change the backend, model, output schema or processing config while
+   * the stream is running, without restarting it. The changes are kept for
+   * later start() calls and stream rebuilds.
+   */
+  async updateConfig(update: RealtimeVisionConfigUpdate): Promise<void> {
+    if (!this.isRunning || !this.streamId) {
+      throw new InvalidStateError("Vision stream not running");
+    }
+
+    const { backend, model, outputSchema, processing } = update;
+    if (
+      backend !== undefined &&
+      backend !== "gemini" &&
+      backend !== "overshoot"
+    ) {
+      throw new ConfigError('backend must be "gemini" or "overshoot"');
+    }
+    if (model !== undefined && (!model || typeof model !== "string")) {
+      throw new ConfigError("model must be a non-empty string");
+    }
+    if (
+      outputSchema !== undefined &&
+      (typeof outputSchema !== "object" || outputSchema === null)
+    ) {
+      throw new ConfigError("outputSchema must be an object");
+    }
+    if (outputSchema !== undefined) {
+      compileSchema(outputSchema);
+    }
+    if (processing) {
+      this.validateProcessing(processing);
+    }
+
+    const streamId = this.streamId;
+    const inference = {
+      ...(backend !== undefined && { backend }),
+      ...(model !== undefined && { model }),
+      ...(outputSchema !== undefined && { output_schema_json: outputSchema }),
+    };
 
-    const videoTrack = videoTracks[0];
-    if (!videoTrack) {
-      this.logger.warn("First video track is null, using fallback FPS");
-      return DEFAULTS.FALLBACK_FPS;
+    this.logger.debug("Updating stream config:", update);
+    if (Object.keys(inference).length > 0) {
+      const response = await this.client.updateInference(streamId, inference);
+      this.applyStreamConfig({ backend, model, outputSchema }, response);
     }
-
-    // For camera sources, get FPS from track settings
-    if (source.type === "camera") {
-      const settings = videoTrack.getSettings();
-      const fps = settings.frameRate ?? DEFAULTS.FALLBACK_FPS;
-      this.logger.debug("Detected camera FPS:", fps);
-      return fps;
+    if (processing && Object.keys(processing).length > 0) {
+      const response = await this.client.updateProcessing(streamId, processing);
+      this.applyStreamConfig({ processing }, response);
     }
+    this.logger.info("Stream config updated");
+  }
 
-    // For video file sources, use fallback FPS
-    if (source.type === "video" && this.videoElement) {
-      await new Promise<void>((resolve, reject) => {
-        if (this.videoElement!.readyState >= 1) {
-          resolve();
-        } else {
-          this.videoElement!.onloadedmetadata = () => resolve();
-          this.videoElement!.onerror = () =>
-            reject(new Error("Failed to load video metadata"));
-        }
-      });
+  /**
+   * Keep the local config in line with the server after an update, so
+   * rebuilds and restarts use the same settings. Values the response
+   * doesn't carry fall back to what was requested.
+   */
+  private applyStreamConfig(
+    requested: Partial<RealtimeVisionConfig<T, S>>,
+    response: StreamConfigResponse,
+  ): void {
+    const backend = response.backend ?? requested.backend;
+    const model = response.model || requested.model;
+    const outputSchema = response.output_schema_json ?? requested.outputSchema;
+    // Only the requested processing keys, so a detected fps isn't pinned
+    const processing =
+      requested.processing &&
+      Object.fromEntries(
+        Object.keys(requested.processing).map((key) => [
+          key,
+          response.processing?.[key as keyof StreamProcessingConfig] ??
+            requested.processing![key as keyof StreamProcessingConfig],
+        ]),
+      );
 
-      this.logger.debug("Using fallback FPS for video file");
-      return DEFAULTS.FALLBACK_FPS;
-    }
+    this.config = {
+      ...this.config,
+      ...(backend && { backend }),
+      ...(model && { model }),
+      ...(outputSchema && { outputSchema }),
+      ...(processing && {
+        processing: { ...this.config.processing, ...processing },
+      }),
+    };
+  }
 
-    // For PNG stream, use the target FPS from config
-    if (source.type === "png-stream") {
-      const fps = source.targetFps ?? DEFAULTS.FALLBACK_FPS;
-      this.logger.debug("Using PNG stream target FPS:", fps);
-      return fps;
+  /**
+   * Stop the vision stream and clean up resources
+   */
+  async stop(): Promise<void> {
+    if (!this.stateMachine.can("stopping")) {
+      this.logger.debug("stop() ignored in state:", this.stateMachine.state);
+      return;
     }
 
-    return DEFAULTS.FALLBACK_FPS;
+    this.logger.info("Stopping stream");
+    this.stateMachine.transition("stopping");
+    await this.cleanup();
+    await this.streamClosing;
+    this.stateMachine.transition("stopped");
   }
 
   /**
-   * Get processing configuration with defaults applied
+   * Stop sending frames without tearing down the stream. The lease keeps
+   * being renewed and the WebSocket stays open, so resume() is instant and
+   * keeps the same stream ID.
    */
-  private getProcessingConfig(detectedFps: number): StreamProcessingConfig {
-    const userProcessing = this.config.processing || {};
-
-    return {
-      sampling_ratio: userProcessing.sampling_ratio ?? DEFAULTS.SAMPLING_RATIO,
-      fps: userProcessing.fps ?? detectedFps,
-      clip_length_seconds:
-        userProcessing.clip_length_seconds ?? DEFAULTS.CLIP_LENGTH_SECONDS,
-      delay_seconds: userProcessing.delay_seconds ?? DEFAULTS.DELAY_SECONDS,
-    };
+  async pause(): Promise<void> {
+    this.autoPaused = false;
+    await this.pauseMedia();
   }
 
   /**
-   * Get the effective source configuration
+   * Resume sending frames after pause()
    */
-  private getSource(): StreamSource {
-    return this.config.source ?? DEFAULTS.SOURCE;
+  async resume(): Promise<void> {
+    this.autoPaused = false;
+    await this.resumeMedia();
   }
 
   /**
-   * Start the vision stream
+   * Check if the stream is paused
    */
-  async start(): Promise<void> {
-    if (this.isRunning) {
-      throw new Error("Vision stream already running");
-    }
+  isPaused(): boolean {
+    return this.stateMachine.state === "paused";
+  }
 
-    try {
-      const source = this.getSource();
-      this.logger.debug("Starting stream with source type:", source.type);
+  private async pauseMedia(): Promise<void> {
+    if (this.isPaused()) {
+      return;
+    }
+    if (!this.isRunning) {
+      throw new InvalidStateError("Vision stream is not running");
+    }
 
-      if (source.type === "video") {
-        this.logger.debug("Video file:", {
-          name: source.file.name,
-          size: source.file.size,
-          type: source.file.type,
-        });
+    this.logger.info("Pausing stream");
+    this.stateMachine.transition("paused");
 
-        if (!source.file || !(source.file instanceof File)) {
-          throw new Error("Invalid video file");
-        }
+    try {
+      await this.videoSender?.replaceTrack(null);
+    } catch (error) {
+      if (this.stateMachine.state === "paused") {
+        this.stateMachine.transition(this.getLiveState());
       }
+      throw new WebRtcNegotiationError("Failed to pause video track", error);
+    }
 
-      // Create media stream
-      this.mediaStream = await this.createMediaStream(source);
-      const videoTrack = this.mediaStream.getVideoTracks()[0];
-      if (!videoTrack) {
-        throw new Error("No video track available");
-      }
+    await this.forEachPrompt((vision) => vision.pause());
+  }
 
-      // Get FPS for the stream
-      const detectedFps = await this.getStreamFps(this.mediaStream, source);
+  private async resumeMedia(): Promise<void> {
+    if (!this.isPaused()) {
+      if (this.isRunning) {
+        return;
+      }
+      throw new InvalidStateError("Vision stream is not running");
+    }
 
-      // Set up WebRTC peer connection
-      const iceServers = this.config.iceServers ?? DEFAULTS.ICE_SERVERS;
-      this.logger.debug("Creating peer connection with ICE servers");
-      this.peerConnection = new RTCPeerConnection({ iceServers });
+    this.logger.info("Resuming stream");
+    this.stateMachine.transition(this.getLiveState());
 
-      // Set up ICE logging
-      this.peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          this.logger.debug("ICE candidate:", {
-            type: event.candidate.type,
-            protocol: event.candidate.protocol,
-          });
-        } else {
-          this.logger.debug("ICE gathering complete");
+    // Missing while a source switch is in progress, which attaches its own
+    const videoTrack = this.mediaStream?.getVideoTracks()[0];
+    if (videoTrack) {
+      try {
+        await this.videoSender?.replaceTrack(videoTrack);
+      } catch (error) {
+        if (this.stateMachine.can("paused")) {
+          this.stateMachine.transition("paused");
         }
-      };
-
-      this.peerConnection.oniceconnectionstatechange = () => {
-        this.logger.debug(
-          "ICE connection state:",
-          this.peerConnection?.iceConnectionState,
-        );
-      };
+        throw new WebRtcNegotiationError("Failed to resume video track", error);
+      }
+    }
 
-      this.peerConnection.addTrack(videoTrack, this.mediaStream);
-
-      // Create and set local offer
-      const offer = await this.peerConnection.createOffer();
-      await this.peerConnection.setLocalDescription(offer);
-
-      if (!this.peerConnection.localDescription) {
-        throw new Error("Failed to create local description");
-      }
-
-      // Create stream on server
-      this.logger.debug("Creating stream on server");
-      const response = await this.client.createStream({
-        webrtc: {
-          type: "offer",
-          sdp: this.peerConnection.localDescription.sdp,
-        },
-        processing: this.getProcessingConfig(detectedFps),
-        inference: {
-          prompt: this.config.prompt,
-          backend: this.config.backend ?? DEFAULTS.BACKEND,
-          model: this.config.model ?? DEFAULTS.MODEL,
-          output_schema_json: this.config.outputSchema,
-        },
-      });
+    await this.forEachPrompt((vision) => vision.resume());
+  }
 
-      this.logger.debug("Backend response received:", {
-        stream_id: response.stream_id,
-        has_turn_servers: !!response.turn_servers,
-      });
+  /**
+   * Pause while the page is hidden and resume when it is visible again,
+   * unless the caller paused explicitly
+   */
+  private watchVisibility(): void {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        if (!this.isRunning || this.isPaused()) {
+          return;
+        }
+        this.autoPaused = true;
+        this.pauseMedia().catch((error) => {
+          this.logger.error("Failed to pause hidden page:", error);
+        });
+      } else if (this.autoPaused) {
+        this.autoPaused = false;
+        this.resumeMedia().catch((error) => {
+          this.logger.error("Failed to resume visible page:", error);
+        });
+      }
+    };
 
-      // Set remote description
-      await this.peerConnection.setRemoteDescription(response.webrtc);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    this.unwatchVisibility = () =>
+      document.removeEventListener("visibilitychange", onVisibilityChange);
 
-      this.streamId = response.stream_id;
-      this.logger.info("Stream started:", this.streamId);
+    if (document.visibilityState === "hidden") {
+      onVisibilityChange();
+    }
+  }
 
-      // Set up keepalive
-      this.setupKeepalive(response.lease?.ttl_seconds);
+  /**
+   * Switch to another source while streaming. The outgoing track is
+   * replaced in place, so the stream ID, WebSocket and lease are kept, and
+   * later start() calls use the new source.
+   *
+   * The current source is released before the new one is opened, because
+   * most devices cannot open two cameras at once. If the new source fails,
+   * the previous one is reopened and the error is rethrown.
+   */
+  async switchSource(source: StreamSource): Promise<void> {
+    if (!this.isRunning) {
+      throw new InvalidStateError("Vision stream is not running");
+    }
+    if (this.isSwitchingSource) {
+      throw new InvalidStateError("A source switch is already in progress");
+    }
+    this.validateSource(source);
 
-      // Connect WebSocket for results
-      this.setupWebSocket(response.stream_id);
+    const previous = this.source;
+    this.logger.info("Switching source:", previous.type, "->", source.type);
+    this.isSwitchingSource = true;
 
-      this.isRunning = true;
+    try {
+      await this.replaceSource(source);
     } catch (error) {
-      await this.handleFatalError(error);
+      if (this.isRunning) {
+        this.logger.warn("Source switch failed, restoring previous source");
+        try {
+          await this.replaceSource(previous);
+        } catch (restoreError) {
+          this.logger.error("Failed to restore previous source:", restoreError);
+          await this.handleFatalError(error);
+        }
+      }
       throw error;
+    } finally {
+      this.isSwitchingSource = false;
     }
+
+    this.source = source;
+    this.logger.info("Source switched to:", source.type);
+    this.emit("sourceChanged", { from: previous.type, to: source.type });
   }
 
   /**
-   * Set up keepalive interval with error handling
+   * Release the current source, open a new one and send its track on the
+   * existing peer connection
    */
-  private setupKeepalive(ttlSeconds: number | undefined): void {
-    if (!ttlSeconds) {
-      return;
-    }
+  private async replaceSource(source: StreamSource): Promise<void> {
+    this.releaseMedia();
 
-    const intervalMs = (ttlSeconds / 2) * 1000;
-    this.logger.debug("Setting up keepalive with interval:", intervalMs, "ms");
-
-    this.keepaliveInterval = window.setInterval(async () => {
-      try {
-        if (this.streamId) {
-          await this.client.renewLease(this.streamId);
-          this.logger.debug("Lease renewed");
-        }
-      } catch (error) {
-        this.logger.error("Keepalive failed:", error);
-        const keepaliveError = new Error(
-          `Keepalive failed: ${error instanceof Error ? error.message : String(error)}`,
+    try {
+      const videoTrack = await this.acquireSource(source);
+      if (!this.isRunning) {
+        throw new InvalidStateError(
+          "Source switch aborted: vision stream stopped",
         );
-        await this.handleFatalError(keepaliveError);
       }
-    }, intervalMs);
+      if (!this.videoSender) {
+        throw new WebRtcNegotiationError("No video sender to switch");
+      }
+      // While paused the new track is attached on resume()
+      if (this.stateMachine.state !== "paused") {
+        await this.videoSender.replaceTrack(videoTrack);
+      }
+    } catch (error) {
+      this.releaseMedia();
+      throw error;
+    }
+
+    await this.forEachPrompt((vision) =>
+      vision.switchSource(this.getSharedSource()),
+    );
   }
 
   /**
-   * Set up WebSocket connection with error handling
+   * Run another prompt on this session's media capture, with its own
+   * backend stream, model, schema, processing config and handlers. The
+   * returned session starts and stops with this one and follows its
+   * source, pause() and resume(). It is started right away if this session
+   * is running.
+   *
+   * @example
+   * const counter = await vision.addPrompt({
+   *   prompt: "Count the people",
+   *   onResult: (result) => console.log(result.result),
+   * });
+   * await vision.removePrompt(counter); // The camera keeps running
    */
-  private setupWebSocket(streamId: string): void {
-    this.logger.debug("Connecting WebSocket for stream:", streamId);
-    this.webSocket = this.client.connectWebSocket(streamId);
-
-    this.webSocket.onopen = () => {
-      this.logger.debug("WebSocket connected");
-      if (this.webSocket) {
-        this.webSocket.send(JSON.stringify({ api_key: this.config.apiKey }));
-      }
-    };
+  async addPrompt<
+    T2 = unknown,
+    const S2 extends OutputSchema | undefined = undefined,
+  >(config: PromptConfig<T2, S2>): Promise<RealtimeVision<T2, S2>> {
+    const vision = new RealtimeVision<T2, S2>({
+      ...config,
+      apiUrl: this.config.apiUrl,
+      ...(this.config.auth
+        ? { auth: this.config.auth }
+        : { apiKey: this.config.apiKey }),
+      ...(this.config.iceServers && { iceServers: this.config.iceServers }),
+      ...(this.config.iceServersProvider && {
+        iceServersProvider: this.config.iceServersProvider,
+      }),
+      ...(this.config.iceTransportPolicy && {
+        iceTransportPolicy: this.config.iceTransportPolicy,
+      }),
+      ...(this.config.reconnect && { reconnect: this.config.reconnect }),
+      ...(this.config.iceRecovery && { iceRecovery: this.config.iceRecovery }),
+      ...(this.config.debug !== undefined && { debug: this.config.debug }),
+      ...(this.config.logger && { logger: this.config.logger }),
+      ...(this.config.logLevel && { logLevel: this.config.logLevel }),
+      ...(this.config.middleware && { middleware: this.config.middleware }),
+    });
+    this.prompts.set(vision, () => this.startPrompt(vision));
 
-    this.webSocket.onmessage = (event) => {
+    if (this.isRunning) {
       try {
-        const result: StreamInferenceResult = JSON.parse(event.data);
-        this.config.onResult(result);
+        await this.startPrompt(vision);
       } catch (error) {
-        const parseError = new Error(
-          `Failed to parse WebSocket message: ${error instanceof Error ? error.message : String(error)}`,
-        );
-        this.handleNonFatalError(parseError);
-      }
-    };
-
-    this.webSocket.onerror = () => {
-      this.logger.error("WebSocket error occurred");
-      const error = new Error("WebSocket error occurred");
-      this.handleFatalError(error);
-    };
-
-    this.webSocket.onclose = (event) => {
-      if (this.isRunning) {
-        if (event.code === 1008) {
-          this.logger.error("WebSocket authentication failed");
-          const error = new Error(
-            "WebSocket authentication failed: Invalid or revoked API key",
-          );
-          this.handleFatalError(error);
-        } else {
-          this.logger.warn("WebSocket closed unexpectedly:", event.code);
-          const error = new Error("WebSocket closed unexpectedly");
-          this.handleFatalError(error);
-        }
-      } else {
-        this.logger.debug("WebSocket closed");
+        this.prompts.delete(vision);
+        throw error;
       }
-    };
+    }
+    return vision;
   }
 
   /**
-   * Handle non-fatal errors (report but don't stop stream)
+   * Stop a prompt added with addPrompt(). The media capture is left
+   * running.
    */
-  private handleNonFatalError(error: Error): void {
-    this.logger.warn("Non-fatal error:", error.message);
-    if (this.config.onError) {
-      this.config.onError(error);
+  async removePrompt(vision: PromptSession): Promise<void> {
+    if (!this.prompts.delete(vision)) {
+      return;
     }
+    await vision.stop();
   }
 
   /**
-   * Handle fatal errors (stop stream and report)
+   * Sessions added with addPrompt(), in the order they were added
    */
-  private async handleFatalError(error: unknown): Promise<void> {
-    this.logger.error("Fatal error:", error);
-    await this.cleanup();
-    this.isRunning = false;
+  getPrompts(): PromptSession[] {
+    return [...this.prompts.keys()];
+  }
 
-    const normalizedError =
-      error instanceof Error ? error : new Error(String(error));
+  /**
+   * Source handed to added prompts: the current media capture, which they
+   * never stop
+   */
+  private getSharedSource(): MediaStreamSource {
+    return { type: "media-stream", stream: this.mediaStream! };
+  }
 
-    if (this.config.onError) {
-      this.config.onError(normalizedError);
+  private async startPrompt<T2, S2 extends OutputSchema | undefined>(
+    vision: RealtimeVision<T2, S2>,
+  ): Promise<void> {
+    vision.source = this.getSharedSource();
+    await vision.start();
+    if (this.isPaused()) {
+      await vision.pause();
     }
   }
 
   /**
-   * Update the prompt/task while stream is running
+   * Start every added prompt. A prompt that fails reports the error on its
+   * own session and doesn't fail this one.
    */
-  async updatePrompt(prompt: string): Promise<void> {
-    if (!this.isRunning || !this.streamId) {
-      throw new Error("Vision stream not running");
-    }
-
-    if (!prompt || typeof prompt !== "string") {
-      throw new ValidationError("prompt must be a non-empty string");
+  private async startPrompts(): Promise<void> {
+    const results = await Promise.allSettled(
+      [...this.prompts.values()].map((start) => start()),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.logger.warn("Failed to start added prompt:", result.reason);
+      }
     }
-
-    this.logger.debug("Updating prompt");
-    await this.client.updatePrompt(this.streamId, prompt);
-    this.logger.info("Prompt updated");
   }
 
   /**
-   * Stop the vision stream and clean up resources
+   * Apply an action to every running added prompt, logging failures
    */
-  async stop(): Promise<void> {
-    this.logger.info("Stopping stream");
-    await this.cleanup();
-    this.isRunning = false;
+  private async forEachPrompt(
+    action: (vision: PromptSession) => Promise<void>,
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      [...this.prompts.keys()]
+        .filter((vision) => vision.isActive())
+        .map(action),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.logger.warn("Failed to update added prompt:", result.reason);
+      }
+    }
   }
 
   /**
@@ -779,20 +2792,20 @@ export class RealtimeVision {
     feedback?: string;
   }): Promise<void> {
     if (!this.streamId) {
-      throw new Error("No active stream");
+      throw new InvalidStateError("No active stream");
     }
 
     if (
       feedback.rating < CONSTRAINTS.RATING.min ||
       feedback.rating > CONSTRAINTS.RATING.max
     ) {
-      throw new ValidationError(
+      throw new ConfigError(
         `rating must be between ${CONSTRAINTS.RATING.min} and ${CONSTRAINTS.RATING.max}`,
       );
     }
 
     if (!feedback.category || typeof feedback.category !== "string") {
-      throw new ValidationError("category must be a non-empty string");
+      throw new ConfigError("category must be a non-empty string");
     }
 
     this.logger.debug("Submitting feedback");
@@ -825,6 +2838,88 @@ export class RealtimeVision {
     return this.isRunning;
   }
 
+  /**
+   * Snapshot of result latency, result rate and failure ratio over the
+   * metrics window, recent lease renewals and outbound video stats
+   */
+  async getMetrics(): Promise<RealtimeVisionMetrics> {
+    return this.metrics.snapshot(await this.readVideoStats("on-demand"));
+  }
+
+  /**
+   * Get the result history, or null when the history option is off.
+   * The history is kept across stop() and start().
+   */
+  getHistory(): ResultHistory<InferResult<T, S>> | null {
+    return this.history;
+  }
+
+  /**
+   * Iterate over inference results as they arrive.
+   * Each call creates an independent consumer with its own buffer.
+   * The iteration ends on stop() and throws on a fatal error.
+   *
+   * @example
+   * for await (const result of vision.results()) {
+   *   console.log(result.result);
+   * }
+   */
+  results(
+    options: ResultStreamOptions = {},
+  ): AsyncIterableIterator<RealtimeVisionResult<InferResult<T, S>>> {
+    // Subscribe before creating the queue so an already aborted signal
+    // can unsubscribe immediately
+    const unsubscribers = [
+      this.on("result", (result) => queue.push(result)),
+      this.on("stateChange", ({ to }) => {
+        if (to === "stopped") {
+          queue.end();
+        }
+      }),
+      this.on("error", ({ error, fatal }) => {
+        if (fatal) {
+          queue.fail(error);
+        }
+      }),
+    ];
+    const unsubscribeAll = () =>
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+
+    let queue: ResultQueue<RealtimeVisionResult<InferResult<T, S>>>;
+    try {
+      queue = new ResultQueue<RealtimeVisionResult<InferResult<T, S>>>(
+        options,
+        unsubscribeAll,
+      );
+    } catch (error) {
+      // Invalid options: the listeners above have no queue to feed
+      unsubscribeAll();
+      throw error;
+    }
+
+    return queue;
+  }
+
+  /**
+   * Same as results(), exposed as a ReadableStream
+   */
+  resultsStream(
+    options: ResultStreamOptions = {},
+  ): ReadableStream<RealtimeVisionResult<InferResult<T, S>>> {
+    return (
+      this.results(options) as ResultQueue<
+        RealtimeVisionResult<InferResult<T, S>>
+      >
+    ).toReadableStream();
+  }
+
+  /**
+   * Get the current connection state
+   */
+  getState(): RealtimeVisionState {
+    return this.stateMachine.state;
+  }
+
   /**
    * Push a new PNG frame to the stream (for png-stream source type only)
    * Accepts: Blob, File, or data URL string
@@ -833,13 +2928,13 @@ export class RealtimeVision {
     const source = this.getSource();
 
     if (source.type !== "png-stream") {
-      throw new Error(
+      throw new ConfigError(
         "pushFrame() can only be used with png-stream source type",
       );
     }
 
     if (!this.isRunning) {
-      throw new Error("Stream is not running. Call start() first.");
+      throw new InvalidStateError("Stream is not running. Call start() first.");
     }
 
     try {
@@ -848,7 +2943,9 @@ export class RealtimeVision {
 
       // Convert to URL
       const imageUrl =
-        typeof frameData === "string" ? frameData : URL.createObjectURL(frameData);
+        typeof frameData === "string"
+          ? frameData
+          : URL.createObjectURL(frameData);
 
       // Load the image
       await new Promise<void>((resolve, reject) => {
@@ -890,25 +2987,52 @@ export class RealtimeVision {
   private async cleanup(): Promise<void> {
     this.logger.debug("Cleaning up resources");
 
-    if (this.keepaliveInterval) {
-      window.clearInterval(this.keepaliveInterval);
-      this.keepaliveInterval = null;
+    // Added prompts use the media capture, so they stop before it is released
+    if (this.prompts.size > 0) {
+      await Promise.all(
+        [...this.prompts.keys()].map((vision) => vision.stop()),
+      );
     }
-
-    if (this.webSocket) {
-      this.webSocket.close();
-      this.webSocket = null;
+    this.promptScheduler?.stop();
+    this.closeConnection();
+    if (this.metricsInterval !== null) {
+      window.clearInterval(this.metricsInterval);
+      this.metricsInterval = null;
+    }
+    this.iceRestartAttempts = 0;
+    this.webSocketAuthRetried = false;
+    this.degradedReasons.clear();
+    this.autoPaused = false;
+    if (this.unwatchVisibility) {
+      this.unwatchVisibility();
+      this.unwatchVisibility = null;
     }
+    if (this.unwatchPageHide) {
+      this.unwatchPageHide();
+      this.unwatchPageHide = null;
+    }
+    this.releaseMedia();
 
-    if (this.peerConnection) {
-      this.peerConnection.close();
-      this.peerConnection = null;
+    this.logger.debug("Cleanup complete");
+  }
+
+  /**
+   * Release the current source: stop owned tracks and tear down the video
+   * element and PNG canvas. The connection is left untouched.
+   */
+  private releaseMedia(): void {
+    if (this.unwatchSourceTrack) {
+      this.unwatchSourceTrack();
+      this.unwatchSourceTrack = null;
     }
 
     if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
+      if (this.ownsMediaTracks) {
+        this.mediaStream.getTracks().forEach((track) => track.stop());
+      }
       this.mediaStream = null;
     }
+    this.ownsMediaTracks = true;
 
     if (this.videoElement) {
       this.videoElement.pause();
@@ -937,8 +3061,5 @@ export class RealtimeVision {
     }
 
     this.canvasContext = null;
-
-    this.streamId = null;
-    this.logger.debug("Cleanup complete");
   }
 }
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { RealtimeVisionConfig } from "../RealtimeVision";
+import { listCameras } from "../devices";
+import { MediaAccessError } from "../errors";
+import {
+  createVision as createBaseVision,
+  mockBrowser,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - camera selection and switching", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      source: { type: "camera", cameraFacing: "user" },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+    mocks.mediaDevices.enumerateDevices.mockResolvedValue([
+      { kind: "audioinput", deviceId: "mic", label: "" },
+      { kind: "videoinput", deviceId: "front", label: "" },
+      { kind: "videoinput", deviceId: "back", label: "" },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should pass deviceId and constraints to getUserMedia", async () => {
+    const vision = createVision({
+      source: {
+        type: "camera",
+        deviceId: "back",
+        constraints: { width: { ideal: 1920 }, frameRate: { ideal: 60 } },
+      },
+    });
+
+    await vision.start();
+
+    expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+      video: {
+        deviceId: { exact: "back" },
+        width: { ideal: 1920 },
+        frameRate: { ideal: 60 },
+      },
+      audio: false,
+    });
+
+    await vision.stop();
+  });
+
+  it("should reject an invalid camera source", () => {
+    expect(() =>
+      createVision({ source: { type: "camera", deviceId: "" } }),
+    ).toThrow("camera deviceId must be a non-empty string");
+  });
+
+  it("should list only video inputs", async () => {
+    const cameras = await listCameras();
+    expect(cameras.map((camera) => camera.deviceId)).toEqual(["front", "back"]);
+    expect(navigator.mediaDevices.getUserMedia).not.toHaveBeenCalled();
+  });
+
+  it("should request permission to reveal camera labels", async () => {
+    await listCameras({ requestPermission: true });
+
+    expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledTimes(1);
+    expect(navigator.mediaDevices.enumerateDevices).toHaveBeenCalledTimes(2);
+  });
+
+  it("should replace the track while keeping the stream", async () => {
+    const onSourceChanged = vi.fn();
+    const vision = createVision();
+    vision.on("sourceChanged", onSourceChanged);
+    await vision.start();
+
+    const [oldTrack] = mocks.tracks;
+    await vision.switchSource({ type: "camera", deviceId: "back" });
+    const newTrack = vision.getMediaStream()!.getVideoTracks()[0];
+
+    expect(oldTrack!.stop).toHaveBeenCalled();
+    expect(mocks.peerConnections[0]!.sender.replaceTrack).toHaveBeenCalledWith(
+      newTrack,
+    );
+    expect(vision.getStreamId()).toBe("test-stream-id");
+    expect(mocks.fetch).toHaveBeenCalledTimes(1);
+    expect(WebSocket).toHaveBeenCalledTimes(1);
+    expect(mocks.socket.close).not.toHaveBeenCalled();
+    expect(onSourceChanged).toHaveBeenCalledWith({
+      from: "camera",
+      to: "camera",
+    });
+
+    await vision.stop();
+  });
+
+  it("should restore the previous source when the new one fails", async () => {
+    const onError = vi.fn();
+    const vision = createVision({ onError });
+    await vision.start();
+
+    const { getUserMedia } = mocks.mediaDevices;
+    getUserMedia.mockRejectedValueOnce(
+      Object.assign(new Error("Not found"), { name: "NotFoundError" }),
+    );
+
+    await expect(
+      vision.switchSource({ type: "camera", deviceId: "missing" }),
+    ).rejects.toBeInstanceOf(MediaAccessError);
+
+    expect(getUserMedia).toHaveBeenLastCalledWith({
+      video: { facingMode: { ideal: "user" } },
+      audio: false,
+    });
+    expect(mocks.peerConnections[0]!.sender.replaceTrack).toHaveBeenCalledTimes(
+      1,
+    );
+    expect(vision.getState()).toBe("waiting-for-result");
+    expect(onError).not.toHaveBeenCalled();
+
+    await vision.stop();
+  });
+
+  it("should reject switchSource() when not running", async () => {
+    const vision = createVision();
+    await expect(
+      vision.switchSource({ type: "camera", cameraFacing: "user" }),
+    ).rejects.toThrow("not running");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { ConfigError } from "../errors";
+import {
+  createVision as createBaseVision,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - runtime config updates", () => {
+  let mocks: BrowserMocks;
+  let configResponse: Record<string, unknown>;
+
+  const createVision = () => createBaseVision({ onError: () => {} });
+
+  beforeEach(() => {
+    configResponse = {
+      id: "config-id",
+      stream_id: STREAM_ID,
+      prompt: "test prompt",
+      backend: "overshoot",
+      model: "Qwen/Qwen3-VL-30B-A3B-Instruct",
+    };
+    mocks = mockBrowser();
+    mocks.respond((url) =>
+      jsonResponse(url.endsWith("/streams") ? streamCreated() : configResponse),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should send inference and processing changes separately", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    await vision.updateConfig({
+      model: "new-model",
+      outputSchema: { type: "object" },
+      processing: { sampling_ratio: 0.5, fps: 15 },
+    });
+
+    const [inference] = mocks.requests("/config/inference");
+    expect(inference!.body).toEqual({
+      model: "new-model",
+      output_schema_json: { type: "object" },
+    });
+    const [processing] = mocks.requests("/config/processing");
+    expect(processing!.body).toEqual({
+      sampling_ratio: 0.5,
+      fps: 15,
+    });
+
+    await vision.stop();
+  });
+
+  it("should only call the endpoints that have changes", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    await vision.updateConfig({ processing: { delay_seconds: 2 } });
+
+    expect(mocks.requests("/config/inference")).toHaveLength(0);
+    expect(mocks.requests("/config/processing")).toHaveLength(1);
+
+    await vision.stop();
+  });
+
+  it("should apply the returned config to later streams", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    configResponse = {
+      id: "config-id",
+      stream_id: "test-stream-id",
+      prompt: "test prompt",
+      backend: "gemini",
+      model: "server-model",
+      output_schema_json: { type: "string" },
+    };
+    await vision.updateConfig({ backend: "gemini", model: "new-model" });
+    configResponse = {
+      ...configResponse,
+      processing: { sampling_ratio: 0.25, fps: 30 },
+    };
+    await vision.updateConfig({ processing: { sampling_ratio: 0.3 } });
+    await vision.stop();
+
+    await vision.start();
+    const creates = mocks.requests("/streams");
+    const { body } = creates[creates.length - 1]!;
+    expect(body.inference).toEqual({
+      prompt: "test prompt",
+      backend: "gemini",
+      model: "server-model",
+      output_schema_json: { type: "string" },
+    });
+    expect(body.processing.sampling_ratio).toBe(0.25);
+    expect(body.processing.fps).toBe(30);
+
+    await vision.stop();
+  });
+
+  it("should validate against the processing constraints", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    await expect(
+      vision.updateConfig({ processing: { sampling_ratio: 2 } }),
+    ).rejects.toThrow("sampling_ratio must be between 0 and 1");
+    await expect(
+      vision.updateConfig({ processing: { fps: 500 } }),
+    ).rejects.toThrow(ConfigError);
+    await expect(vision.updateConfig({ model: "" })).rejects.toThrow(
+      "model must be a non-empty string",
+    );
+    expect(mocks.requests("/config/processing")).toHaveLength(0);
+
+    await vision.stop();
+  });
+
+  it("should require a running stream", async () => {
+    await expect(createVision().updateConfig({ model: "x" })).rejects.toThrow(
+      "Vision stream not running",
+    );
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { RealtimeVisionConfig } from "../RealtimeVision";
+import { TypedEventEmitter } from "../emitter";
+import {
+  createVision as createBaseVision,
+  inferenceResult,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("TypedEventEmitter", () => {
+  class TestEmitter extends TypedEventEmitter<{ ping: number }> {
+    fire(value: number) {
+      this.emit("ping", value);
+    }
+  }
+
+  it("should register and remove listeners", () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+
+    const unsubscribe = emitter.on("ping", listener);
+    emitter.fire(1);
+    unsubscribe();
+    emitter.fire(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it("should call once listeners a single time", () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+
+    emitter.once("ping", listener);
+    emitter.fire(1);
+    emitter.fire(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(emitter.listenerCount("ping")).toBe(0);
+  });
+
+  it("should remove once listeners by the original listener", () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+
+    emitter.once("ping", listener);
+    expect(emitter.listenerCount("ping", listener)).toBe(1);
+    emitter.off("ping", listener);
+    emitter.fire(1);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(emitter.listenerCount("ping")).toBe(0);
+  });
+});
+
+describe("RealtimeVision - events and state", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      source: { type: "camera", cameraFacing: "user" },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should walk through the connection states", async () => {
+    const vision = createVision();
+    const states: string[] = [];
+    vision.on("stateChange", ({ to }) => states.push(to));
+
+    expect(vision.getState()).toBe("idle");
+    await vision.start();
+    mocks.socket.receive(inferenceResult({ result: "hello" }));
+    await vision.stop();
+
+    expect(states).toEqual([
+      "acquiring-media",
+      "negotiating",
+      "waiting-for-result",
+      "running",
+      "stopping",
+      "stopped",
+    ]);
+  });
+
+  it("should emit results to both the event and the onResult callback", async () => {
+    const onResult = vi.fn();
+    const listener = vi.fn();
+    const vision = createVision({ onResult });
+    vision.on("result", listener);
+
+    await vision.start();
+    const message = inferenceResult({ result: "hello" });
+    mocks.socket.receive(message);
+
+    const expected = { ...message, parsed: "hello" };
+    expect(onResult).toHaveBeenCalledWith(expected);
+    expect(listener).toHaveBeenCalledWith(expected);
+
+    await vision.stop();
+  });
+
+  it("should report parse errors as non-fatal", async () => {
+    const onError = vi.fn();
+    const listener = vi.fn();
+    const vision = createVision({ onError });
+    vision.on("error", listener);
+
+    await vision.start();
+    mocks.socket.receive("not json");
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ fatal: false }),
+    );
+    expect(vision.getState()).toBe("waiting-for-result");
+
+    await vision.stop();
+  });
+
+  it("should move to degraded while the WebSocket reconnects", async () => {
+    vi.useFakeTimers();
+    const vision = createVision();
+
+    await vision.start();
+    mocks.socket.serverClose(1006);
+    expect(vision.getState()).toBe("degraded");
+    expect(vision.isActive()).toBe(true);
+
+    await vision.stop();
+    vi.useRealTimers();
+  });
+
+  it("should reject start() while stopping", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    const stopping = vision.stop();
+    expect(vision.getState()).toBe("stopping");
+    await expect(vision.start()).rejects.toThrow(
+      "Cannot start vision stream while stopping",
+    );
+    await stopping;
+
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should abort start() when stopped while acquiring media", async () => {
+    const vision = createVision();
+
+    const starting = vision.start();
+    await vision.stop();
+
+    await expect(starting).rejects.toThrow("start aborted");
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should move to failed on a fatal error and allow restarting", async () => {
+    const onError = vi.fn();
+    const vision = createVision({ onError });
+
+    await vision.start();
+    mocks.socket.serverClose(1008);
+    await Promise.resolve();
+
+    expect(vision.getState()).toBe("failed");
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    await vision.start();
+    expect(vision.getState()).toBe("waiting-for-result");
+    await vision.stop();
+  });
+
+  it("should close the stream on the server when stopped", async () => {
+    const vision = createVision();
+    await vision.start();
+    await vision.stop();
+
+    expect(fetch).toHaveBeenLastCalledWith(
+      "https://api.test.com/streams/test-stream-id/close",
+      expect.objectContaining({ method: "POST" }),
+    );
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should still stop when closing the stream fails", async () => {
+    const vision = createVision();
+    await vision.start();
+    vi.mocked(fetch).mockRejectedValue(new TypeError("Failed to fetch"));
+
+    await vision.stop();
+
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should close the stream when stopped while negotiating", async () => {
+    let respond!: (response: Response) => void;
+    mocks.respond((url) =>
+      url.endsWith("/streams")
+        ? new Promise((resolve) => {
+            respond = resolve;
+          })
+        : jsonResponse({ status: "ok", stream_id: STREAM_ID }),
+    );
+    const vision = createVision();
+
+    const starting = vision.start();
+    await vi.waitFor(() => expect(mocks.requests("/streams")).toHaveLength(1));
+    expect(vision.getState()).toBe("negotiating");
+    const stopping = vision.stop();
+    // A closed RTCPeerConnection rejects the answer
+    mocks.peerConnections[0]!.setRemoteDescription.mockRejectedValue(
+      new DOMException("The peer connection is closed", "InvalidStateError"),
+    );
+    respond(jsonResponse(streamCreated()));
+
+    await expect(starting).rejects.toThrow("Failed to apply WebRTC answer");
+    await stopping;
+
+    expect(mocks.requests(`/streams/${STREAM_ID}/close`)).toHaveLength(1);
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should close the stream with a keepalive request on pagehide", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    window.dispatchEvent(new Event("pagehide"));
+
+    expect(fetch).toHaveBeenLastCalledWith(
+      "https://api.test.com/streams/test-stream-id/close",
+      expect.objectContaining({
+        method: "POST",
+        keepalive: true,
+        headers: { Authorization: "Bearer test-key" },
+      }),
+    );
+
+    await vision.stop();
+    vi.mocked(fetch).mockClear();
+    window.dispatchEvent(new Event("pagehide"));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should keep the stream when the page enters the back/forward cache", async () => {
+    const vision = createVision();
+    await vision.start();
+    vi.mocked(fetch).mockClear();
+
+    window.dispatchEvent(
+      new PageTransitionEvent("pagehide", { persisted: true }),
+    );
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(vision.isActive()).toBe(true);
+
+    await vision.stop();
+  });
+});
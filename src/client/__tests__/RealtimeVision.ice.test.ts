@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { WebRtcNegotiationError } from "../errors";
+import {
+  createVision,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - ICE servers", () => {
+  let mocks: BrowserMocks;
+  let turnServers: RTCIceServer[] | undefined;
+
+  const serverTurn: RTCIceServer[] = [
+    {
+      urls: "turn:turn.test.com:3478",
+      username: "user",
+      credential: "secret",
+    },
+  ];
+
+  const restartRequests = () => mocks.requests("/webrtc");
+
+  beforeEach(() => {
+    turnServers = serverTurn;
+    let streamCount = 0;
+    mocks = mockBrowser();
+    mocks.respond((url) => {
+      if (url.endsWith("/webrtc")) {
+        return jsonResponse({
+          stream_id: `stream-${streamCount}`,
+          webrtc: { type: "answer", sdp: "restart-sdp" },
+        });
+      }
+      streamCount++;
+      return jsonResponse(
+        streamCreated({
+          stream_id: `stream-${streamCount}`,
+          ...(turnServers && { turn_servers: turnServers }),
+        }),
+      );
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should apply server TURN servers without an ICE restart", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    const pc = mocks.peerConnections[0]!;
+    expect(RTCPeerConnection).toHaveBeenCalledWith({
+      iceServers: [],
+      iceTransportPolicy: "all",
+    });
+    expect(pc.setConfiguration).toHaveBeenCalledWith({
+      iceServers: serverTurn,
+      iceTransportPolicy: "all",
+    });
+    expect(pc.createOffer).toHaveBeenCalledTimes(1);
+    expect(restartRequests()).toHaveLength(0);
+
+    await vision.stop();
+  });
+
+  it("should restart ICE for server TURN servers when relay-only", async () => {
+    const vision = createVision({ iceTransportPolicy: "relay" });
+    await vision.start();
+
+    const pc = mocks.peerConnections[0]!;
+    expect(pc.setConfiguration).toHaveBeenCalledWith({
+      iceServers: serverTurn,
+      iceTransportPolicy: "relay",
+    });
+    expect(pc.createOffer).toHaveBeenLastCalledWith({ iceRestart: true });
+    expect(restartRequests()).toHaveLength(1);
+    expect(pc.setRemoteDescription).toHaveBeenLastCalledWith({
+      type: "answer",
+      sdp: "restart-sdp",
+    });
+
+    await vision.stop();
+  });
+
+  it("should reuse server TURN servers for later streams", async () => {
+    const vision = createVision();
+    await vision.start();
+    await vision.stop();
+    await vision.start();
+
+    const pc = mocks.peerConnections[1]!;
+    expect(pc.configuration.iceServers).toEqual(serverTurn);
+    expect(pc.setConfiguration).not.toHaveBeenCalled();
+    expect(restartRequests()).toHaveLength(0);
+
+    await vision.stop();
+  });
+
+  it("should not restart ICE without server TURN servers", async () => {
+    turnServers = undefined;
+    const vision = createVision();
+    await vision.start();
+
+    expect(mocks.peerConnections[0]!.setConfiguration).not.toHaveBeenCalled();
+    expect(restartRequests()).toHaveLength(0);
+
+    await vision.stop();
+  });
+
+  it("should use the provider before every offer and relay-only policy", async () => {
+    const provided: RTCIceServer[] = [{ urls: "turns:relay.test.com:443" }];
+    const iceServersProvider = vi.fn().mockResolvedValue(provided);
+    const vision = createVision({
+      iceServersProvider,
+      iceTransportPolicy: "relay",
+    });
+
+    await vision.start();
+
+    expect(iceServersProvider).toHaveBeenCalledTimes(1);
+    expect(RTCPeerConnection).toHaveBeenCalledWith({
+      iceServers: provided,
+      iceTransportPolicy: "relay",
+    });
+    // App-supplied servers take precedence over the server's
+    expect(mocks.peerConnections[0]!.setConfiguration).not.toHaveBeenCalled();
+    expect(restartRequests()).toHaveLength(0);
+
+    await vision.stop();
+    await vision.start();
+    expect(iceServersProvider).toHaveBeenCalledTimes(2);
+
+    await vision.stop();
+  });
+
+  it("should fail to start when the provider fails", async () => {
+    const onError = vi.fn();
+    const vision = createVision({
+      onError,
+      iceServersProvider: vi.fn().mockRejectedValue(new Error("offline")),
+    });
+
+    await expect(vision.start()).rejects.toThrow(WebRtcNegotiationError);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(mocks.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject an invalid transport policy", () => {
+    expect(() =>
+      createVision({ iceTransportPolicy: "direct" as RTCIceTransportPolicy }),
+    ).toThrow('iceTransportPolicy must be "all" or "relay"');
+  });
+});
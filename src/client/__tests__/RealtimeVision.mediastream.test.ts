@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { MediaStreamSource } from "../types";
+import {
+  createMediaStream,
+  createTrack,
+  createVision as createBaseVision,
+  mockBrowser,
+  type BrowserMocks,
+  type MockTrack,
+} from "./helpers";
+
+describe("RealtimeVision - MediaStream Source", () => {
+  let mocks: BrowserMocks;
+  let mockTrack: MockTrack;
+  let mockStream: MediaStream;
+
+  const createVision = (source: Omit<MediaStreamSource, "type">) =>
+    createBaseVision({
+      source: { type: "media-stream", ...source } as MediaStreamSource,
+    });
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+    mockTrack = createTrack({ frameRate: 24 });
+    mockStream = createMediaStream(mockTrack);
+
+    vi.stubGlobal(
+      "MediaStream",
+      vi.fn((tracks: MediaStreamTrack[]) => ({
+        getVideoTracks: () => tracks,
+        getTracks: () => tracks,
+      })),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should reject a source without stream or track", () => {
+    expect(() => createVision({} as MediaStreamSource)).toThrow(
+      "media-stream source must provide a MediaStream",
+    );
+  });
+
+  it("should reject an audio track", () => {
+    const audio = Object.assign(createTrack(), { kind: "audio" });
+    expect(() => createVision({ track: audio })).toThrow(
+      "media-stream source must provide a MediaStream",
+    );
+  });
+
+  it("should use the provided stream as-is", async () => {
+    const vision = createVision({ stream: mockStream });
+    await vision.start();
+
+    expect(vision.getMediaStream()).toBe(mockStream);
+    const [{ body }] = mocks.requests("/streams");
+    expect(body.processing.fps).toBe(24);
+
+    await vision.stop();
+  });
+
+  it("should not stop tracks it does not own", async () => {
+    const vision = createVision({ stream: mockStream });
+    await vision.start();
+    await vision.stop();
+
+    expect(mockTrack.stop).not.toHaveBeenCalled();
+  });
+
+  it("should wrap a single track in a MediaStream", async () => {
+    const vision = createVision({ track: mockTrack });
+    await vision.start();
+
+    expect(MediaStream).toHaveBeenCalledWith([mockTrack]);
+    await vision.stop();
+    expect(mockTrack.stop).not.toHaveBeenCalled();
+  });
+
+  it("should stop when the provided track ends", async () => {
+    const vision = createVision({ track: mockTrack });
+    await vision.start();
+
+    mockTrack.dispatchEvent(new Event("ended"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(vision.getState()).toBe("stopped");
+  });
+});
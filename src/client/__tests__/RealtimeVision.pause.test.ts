@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { RealtimeVisionConfig } from "../RealtimeVision";
+import {
+  createVision as createBaseVision,
+  inferenceResult,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - pause and resume", () => {
+  let mocks: BrowserMocks;
+  let visibilityState: DocumentVisibilityState;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      source: { type: "camera", cameraFacing: "user" },
+      ...overrides,
+    });
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    visibilityState = state;
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mocks = mockBrowser();
+    mocks.respond((url) =>
+      jsonResponse(
+        url.endsWith("/streams")
+          ? streamCreated({ lease: { ttl_seconds: 2 } })
+          : { status: "ok", stream_id: STREAM_ID, ttl_seconds: 2 },
+      ),
+    );
+
+    visibilityState = "visible";
+    vi.spyOn(document, "visibilityState", "get").mockImplementation(
+      () => visibilityState,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should stop sending frames and keep the stream alive", async () => {
+    const vision = createVision();
+    await vision.start();
+    mocks.socket.receive(inferenceResult({ result: "a" }));
+
+    await vision.pause();
+
+    expect(vision.getState()).toBe("paused");
+    expect(vision.isPaused()).toBe(true);
+    expect(vision.isActive()).toBe(true);
+    expect(mocks.peerConnections[0]!.sender.replaceTrack).toHaveBeenCalledWith(
+      null,
+    );
+    expect(mocks.tracks[0]!.stop).not.toHaveBeenCalled();
+    expect(mocks.socket.close).not.toHaveBeenCalled();
+
+    // The lease is still renewed while paused
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://api.test.com/streams/test-stream-id/keepalive",
+      expect.anything(),
+    );
+
+    await vision.resume();
+
+    expect(vision.getState()).toBe("running");
+    expect(
+      mocks.peerConnections[0]!.sender.replaceTrack,
+    ).toHaveBeenLastCalledWith(mocks.tracks[0]);
+    expect(vision.getStreamId()).toBe("test-stream-id");
+
+    await vision.stop();
+  });
+
+  it("should resume into degraded when the WebSocket dropped while paused", async () => {
+    const vision = createVision();
+    await vision.start();
+    await vision.pause();
+
+    mocks.socket.serverClose(1006);
+    expect(vision.getState()).toBe("paused");
+
+    await vision.resume();
+    expect(vision.getState()).toBe("degraded");
+
+    await vision.stop();
+  });
+
+  it("should reject pause() when not running", async () => {
+    const vision = createVision();
+    await expect(vision.pause()).rejects.toThrow("not running");
+  });
+
+  it("should pause while the page is hidden with pauseWhenHidden", async () => {
+    const vision = createVision({ pauseWhenHidden: true });
+    await vision.start();
+
+    setVisibility("hidden");
+    await Promise.resolve();
+    expect(vision.getState()).toBe("paused");
+
+    setVisibility("visible");
+    await Promise.resolve();
+    expect(vision.getState()).toBe("waiting-for-result");
+
+    await vision.stop();
+  });
+
+  it("should not auto-resume a pause requested by the caller", async () => {
+    const vision = createVision({ pauseWhenHidden: true });
+    await vision.start();
+
+    await vision.pause();
+    setVisibility("hidden");
+    setVisibility("visible");
+    await Promise.resolve();
+
+    expect(vision.getState()).toBe("paused");
+    await vision.stop();
+  });
+
+  it("should not watch visibility without pauseWhenHidden", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    setVisibility("hidden");
+    await Promise.resolve();
+
+    expect(vision.getState()).toBe("waiting-for-result");
+    await vision.stop();
+  });
+});
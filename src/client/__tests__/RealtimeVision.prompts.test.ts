@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import {
+  createMediaStream,
+  createTrack,
+  createVision as createBaseVision,
+  inferenceResult,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - multiple prompts", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = () =>
+    createBaseVision({ prompt: "Read any visible text" });
+
+  beforeEach(() => {
+    let streamCount = 0;
+    mocks = mockBrowser();
+    mocks.respond(() =>
+      jsonResponse(streamCreated({ stream_id: `stream-${++streamCount}` })),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should run added prompts on a single camera capture", async () => {
+    const vision = createVision();
+    const onCount = vi.fn();
+    const counter = await vision.addPrompt({
+      prompt: "Count the people",
+      model: "other-model",
+      processing: { sampling_ratio: 0.5 },
+      onResult: onCount,
+    });
+    expect(counter.isActive()).toBe(false);
+
+    await vision.start();
+
+    expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledTimes(1);
+    expect(counter.isActive()).toBe(true);
+    expect(counter.getMediaStream()).toBe(vision.getMediaStream());
+    expect(counter.getStreamId()).not.toBe(vision.getStreamId());
+
+    const bodies = mocks.requests().map(({ body }) => body);
+    expect(bodies[1]).toMatchObject({
+      processing: { sampling_ratio: 0.5 },
+      inference: { prompt: "Count the people", model: "other-model" },
+    });
+
+    // Results are routed to the handler of the prompt's own stream
+    mocks.sockets[1]!.receive(inferenceResult({ result: "3" }));
+    expect(onCount).toHaveBeenCalledWith(
+      expect.objectContaining({ result: "3" }),
+    );
+
+    await vision.stop();
+    expect(counter.getState()).toBe("stopped");
+    expect(mocks.tracks[0]!.stop).toHaveBeenCalled();
+  });
+
+  it("should add and remove prompts at runtime without stopping the camera", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    const counter = await vision.addPrompt({
+      prompt: "Count the people",
+      onResult: () => {},
+    });
+    expect(counter.isActive()).toBe(true);
+    expect(vision.getPrompts()).toEqual([counter]);
+
+    await vision.removePrompt(counter);
+
+    expect(counter.getState()).toBe("stopped");
+    expect(vision.getPrompts()).toEqual([]);
+    expect(mocks.tracks[0]!.stop).not.toHaveBeenCalled();
+    expect(vision.isActive()).toBe(true);
+    expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledTimes(1);
+
+    await vision.stop();
+  });
+
+  it("should pause and resume added prompts with the session", async () => {
+    const vision = createVision();
+    await vision.start();
+    const counter = await vision.addPrompt({
+      prompt: "Count the people",
+      onResult: () => {},
+    });
+
+    await vision.pause();
+    expect(counter.isPaused()).toBe(true);
+    expect(mocks.peerConnections[1]!.sender.replaceTrack).toHaveBeenCalledWith(
+      null,
+    );
+
+    await vision.resume();
+    expect(counter.isPaused()).toBe(false);
+
+    await vision.stop();
+  });
+
+  it("should move added prompts to the new capture on switchSource()", async () => {
+    const vision = createVision();
+    await vision.start();
+    const counter = await vision.addPrompt({
+      prompt: "Count the people",
+      onResult: () => {},
+    });
+
+    const frontTrack = createTrack();
+    mocks.mediaDevices.getUserMedia.mockResolvedValue(
+      createMediaStream(frontTrack),
+    );
+
+    await vision.switchSource({ type: "camera", cameraFacing: "user" });
+
+    expect(counter.getMediaStream()).toBe(vision.getMediaStream());
+    expect(mocks.peerConnections[1]!.sender.replaceTrack).toHaveBeenCalledWith(
+      frontTrack,
+    );
+
+    await vision.stop();
+  });
+
+  it("should not fail the session when an added prompt fails to start", async () => {
+    const vision = createVision();
+    const onError = vi.fn();
+    const counter = await vision.addPrompt({
+      prompt: "Count the people",
+      onResult: () => {},
+      onError,
+    });
+    mocks.fetch
+      .mockResolvedValueOnce(
+        jsonResponse(streamCreated({ stream_id: "stream-1" })),
+      )
+      .mockRejectedValue(new TypeError("Failed to fetch"));
+
+    await vision.start();
+
+    expect(vision.isActive()).toBe(true);
+    expect(counter.getState()).toBe("failed");
+    expect(onError).toHaveBeenCalled();
+
+    await vision.stop();
+  });
+});
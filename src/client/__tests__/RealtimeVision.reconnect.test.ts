@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { RealtimeVisionConfig } from "../RealtimeVision";
+import {
+  createVision as createBaseVision,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - WebSocket reconnection", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      source: { type: "camera", cameraFacing: "user" },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mocks = mockBrowser();
+    mocks.respond((url) =>
+      jsonResponse(
+        url.endsWith("/streams")
+          ? streamCreated()
+          : { status: "ok", stream_id: STREAM_ID, ttl_seconds: 300 },
+      ),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should reconnect and re-authenticate after an unexpected close", async () => {
+    const onReconnecting = vi.fn();
+    const onReconnected = vi.fn();
+    const onError = vi.fn();
+    const vision = createVision({ onReconnecting, onReconnected, onError });
+
+    await vision.start();
+    mocks.sockets[0]!.open();
+    mocks.sockets[0]!.serverClose(1006);
+
+    expect(onReconnecting).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1 }),
+    );
+    expect(mocks.peerConnections[0]!.close).not.toHaveBeenCalled();
+
+    await vi.runOnlyPendingTimersAsync();
+    expect(mocks.sockets).toHaveLength(2);
+
+    mocks.sockets[1]!.open();
+    expect(mocks.sockets[1]!.send).toHaveBeenCalledWith(
+      JSON.stringify({ api_key: "test-key" }),
+    );
+    expect(onReconnected).toHaveBeenCalledWith({ attempts: 1 });
+    expect(onError).not.toHaveBeenCalled();
+    expect(vision.isActive()).toBe(true);
+
+    await vision.stop();
+  });
+
+  it("should treat an auth close (1008) as fatal", async () => {
+    const onReconnecting = vi.fn();
+    const onError = vi.fn();
+    const vision = createVision({ onReconnecting, onError });
+
+    await vision.start();
+    mocks.sockets[0]!.serverClose(1008);
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(onReconnecting).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining("authentication failed"),
+      }),
+    );
+    expect(vision.isActive()).toBe(false);
+  });
+
+  it("should log a failed cleanup after a fatal close", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const vision = createVision();
+
+    await vision.start();
+    mocks.tracks[0]!.stop.mockImplementation(() => {
+      throw new Error("stop failed");
+    });
+    mocks.sockets[0]!.serverClose(1008);
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(consoleError).toHaveBeenCalledWith(
+      "[RealtimeVision]",
+      "Failed to handle fatal error:",
+      expect.objectContaining({ message: "stop failed" }),
+    );
+    expect(vision.isActive()).toBe(false);
+    consoleError.mockRestore();
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const onReconnecting = vi.fn();
+    const onError = vi.fn();
+    const vision = createVision({
+      onReconnecting,
+      onError,
+      reconnect: { maxAttempts: 2, initialDelayMs: 10, maxDelayMs: 20 },
+    });
+
+    await vision.start();
+    mocks.sockets[0]!.serverClose(1006);
+    await vi.runOnlyPendingTimersAsync();
+    mocks.sockets[1]!.serverClose(1006);
+    await vi.runOnlyPendingTimersAsync();
+    mocks.sockets[2]!.serverClose(1006);
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(onReconnecting).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(vision.isActive()).toBe(false);
+  });
+
+  it("should cap the backoff delay at maxDelayMs", async () => {
+    const onReconnecting = vi.fn();
+    const vision = createVision({
+      onReconnecting,
+      reconnect: { initialDelayMs: 100, maxDelayMs: 150 },
+    });
+
+    await vision.start();
+    for (let i = 0; i < 4; i++) {
+      mocks.sockets[i]!.serverClose(1006);
+      await vi.runOnlyPendingTimersAsync();
+    }
+
+    for (const [info] of onReconnecting.mock.calls) {
+      expect(info.delayMs).toBeLessThanOrEqual(150);
+    }
+
+    await vision.stop();
+  });
+
+  it("should reject an invalid reconnect config", () => {
+    expect(() => createVision({ reconnect: { maxAttempts: -1 } })).toThrow(
+      "reconnect.maxAttempts must be an integer",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import type { RealtimeVisionConfig } from "../RealtimeVision";
+import {
+  createVision as createBaseVision,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("RealtimeVision - ICE recovery", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      source: { type: "camera", cameraFacing: "user" },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    let streamCount = 0;
+    mocks = mockBrowser();
+    mocks.respond((url) => {
+      if (url.endsWith("/close")) {
+        return jsonResponse({ status: "ok", stream_id: "closed" });
+      }
+      if (url.endsWith("/webrtc")) {
+        return jsonResponse({
+          stream_id: `stream-${streamCount}`,
+          webrtc: { type: "answer", sdp: "restart-sdp" },
+        });
+      }
+      streamCount++;
+      return jsonResponse(
+        streamCreated({ stream_id: `stream-${streamCount}` }),
+      );
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should restart ICE when the connection fails", async () => {
+    const onRecovering = vi.fn();
+    const onRecovered = vi.fn();
+    const vision = createVision({ onRecovering, onRecovered });
+
+    await vision.start();
+    const pc = mocks.peerConnections[0]!;
+    pc.setIceConnectionState("connected");
+    pc.setIceConnectionState("failed");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pc.createOffer).toHaveBeenLastCalledWith({ iceRestart: true });
+    expect(mocks.fetch).toHaveBeenCalledWith(
+      "https://api.test.com/streams/stream-1/webrtc",
+      expect.objectContaining({ method: "POST" }),
+    );
+    expect(pc.setRemoteDescription).toHaveBeenLastCalledWith({
+      type: "answer",
+      sdp: "restart-sdp",
+    });
+    expect(onRecovering).toHaveBeenCalledWith({
+      reason: "ice-failed",
+      strategy: "ice-restart",
+      attempt: 1,
+    });
+
+    pc.setIceConnectionState("connected");
+    expect(onRecovered).toHaveBeenCalledWith({
+      strategy: "ice-restart",
+      attempts: 1,
+      streamId: "stream-1",
+    });
+    expect(vision.getStreamId()).toBe("stream-1");
+
+    await vision.stop();
+  });
+
+  it("should recover when ICE reconnects before the restart settles", async () => {
+    const onRecovering = vi.fn();
+    const onRecovered = vi.fn();
+    const vision = createVision({ onRecovering, onRecovered });
+
+    await vision.start();
+    const pc = mocks.peerConnections[0]!;
+    pc.setIceConnectionState("connected");
+    pc.setRemoteDescription.mockImplementation(async () =>
+      pc.setIceConnectionState("connected"),
+    );
+    pc.setIceConnectionState("failed");
+    expect(vision.getState()).toBe("degraded");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(vision.getState()).toBe("waiting-for-result");
+    expect(onRecovering).toHaveBeenCalledTimes(1);
+    expect(onRecovered).toHaveBeenCalledWith({
+      strategy: "ice-restart",
+      attempts: 1,
+      streamId: "stream-1",
+    });
+
+    await vision.stop();
+  });
+
+  it("should wait before restarting a disconnected connection", async () => {
+    const onRecovering = vi.fn();
+    const vision = createVision({
+      onRecovering,
+      iceRecovery: { disconnectedTimeoutMs: 1000 },
+    });
+
+    await vision.start();
+    const pc = mocks.peerConnections[0]!;
+    pc.setIceConnectionState("disconnected");
+    await vi.advanceTimersByTimeAsync(500);
+    pc.setIceConnectionState("connected");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onRecovering).not.toHaveBeenCalled();
+
+    pc.setIceConnectionState("disconnected");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onRecovering).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "ice-disconnected" }),
+    );
+
+    await vision.stop();
+  });
+
+  it("should rebuild the stream when ICE restart fails", async () => {
+    const onRecovered = vi.fn();
+    const onError = vi.fn();
+    const vision = createVision({ onRecovered, onError });
+
+    await vision.start();
+    const pc = mocks.peerConnections[0]!;
+    pc.createOffer.mockRejectedValueOnce(new Error("restart failed"));
+    pc.setIceConnectionState("failed");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pc.close).toHaveBeenCalled();
+    expect(mocks.peerConnections).toHaveLength(2);
+    expect(vision.getStreamId()).toBe("stream-2");
+    expect(onRecovered).toHaveBeenCalledWith({
+      strategy: "rebuild",
+      attempts: 1,
+      streamId: "stream-2",
+    });
+    expect(onError).not.toHaveBeenCalled();
+    expect(vision.isActive()).toBe(true);
+
+    await vision.stop();
+  });
+
+  it("should fail the session when rebuilding is disabled", async () => {
+    const onError = vi.fn();
+    const vision = createVision({
+      onError,
+      iceRecovery: { maxRestarts: 0, rebuildOnFailure: false },
+    });
+
+    await vision.start();
+    mocks.peerConnections[0]!.setIceConnectionState("failed");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(vision.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { MediaAccessError } from "../errors";
+import type { ScreenSource } from "../types";
+import {
+  createMediaStream,
+  createTrack,
+  createVision as createBaseVision,
+  mockBrowser,
+  setMediaDevices,
+  type BrowserMocks,
+  type MockTrack,
+} from "./helpers";
+
+describe("RealtimeVision - Screen Source", () => {
+  let mocks: BrowserMocks;
+  let mockTrack: MockTrack;
+
+  const createVision = (source: Omit<ScreenSource, "type"> = {}) =>
+    createBaseVision({ source: { type: "screen", ...source } });
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+    mockTrack = createTrack({ frameRate: 15 });
+    mocks.mediaDevices.getDisplayMedia.mockResolvedValue(
+      createMediaStream(mockTrack),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("Configuration", () => {
+    it("should accept a screen source with options", () => {
+      expect(() =>
+        createVision({
+          cursor: "always",
+          displaySurface: "browser",
+          width: 1920,
+          height: 1080,
+          frameRate: 10,
+        }),
+      ).not.toThrow();
+    });
+
+    it("should reject an invalid cursor", () => {
+      expect(() =>
+        createVision({ cursor: "sometimes" as ScreenSource["cursor"] }),
+      ).toThrow("screen cursor must be");
+    });
+
+    it("should reject an invalid frameRate", () => {
+      expect(() => createVision({ frameRate: 500 })).toThrow(
+        "screen frameRate must be between",
+      );
+    });
+  });
+
+  it("should request display media with the given constraints", async () => {
+    const vision = createVision({ cursor: "never", frameRate: 10 });
+    await vision.start();
+
+    expect(mocks.mediaDevices.getDisplayMedia).toHaveBeenCalledWith({
+      video: { cursor: "never", frameRate: { ideal: 10 } },
+      audio: false,
+    });
+
+    await vision.stop();
+  });
+
+  it("should detect FPS from the track settings", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    const [{ body }] = mocks.requests("/streams");
+    expect(body.processing.fps).toBe(15);
+
+    await vision.stop();
+  });
+
+  it("should stop gracefully when sharing ends", async () => {
+    const vision = createVision();
+    const onSourceEnded = vi.fn();
+    vision.on("sourceEnded", onSourceEnded);
+
+    await vision.start();
+    mockTrack.dispatchEvent(new Event("ended"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onSourceEnded).toHaveBeenCalledWith({ type: "screen" });
+    expect(vision.getState()).toBe("stopped");
+  });
+
+  it("should report a missing getDisplayMedia as unsupported", async () => {
+    setMediaDevices({});
+    const vision = createVision();
+
+    const error = await vision.start().catch((e) => e);
+    expect(error).toBeInstanceOf(MediaAccessError);
+    expect(error.reason).toBe("unsupported");
+  });
+});
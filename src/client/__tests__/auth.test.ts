@@ -0,0 +1,265 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  vi,
+  afterEach,
+  type Mock,
+} from "vitest";
+import { TokenManager, type AccessToken } from "../auth";
+import { StreamClient } from "../client";
+import { RealtimeVision, type RealtimeVisionConfig } from "../RealtimeVision";
+import { ConfigError, UnauthorizedError } from "../errors";
+import {
+  API_URL,
+  createVision as createBaseVision,
+  jsonResponse,
+  mockBrowser,
+  type BrowserMocks,
+} from "./helpers";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("TokenManager", () => {
+  let issued: number;
+  let provider: Mock<[], Promise<AccessToken>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    issued = 0;
+    provider = vi.fn(async () => ({
+      token: `token-${++issued}`,
+      expiresAt: Date.now() + 60_000,
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should cache tokens until they expire", async () => {
+    const tokens = new TokenManager({ getToken: provider, refreshBeforeMs: 0 });
+
+    expect(await tokens.getToken()).toBe("token-1");
+    vi.setSystemTime(59_000);
+    expect(await tokens.getToken()).toBe("token-1");
+    vi.setSystemTime(60_000);
+    expect(tokens.peek()).toBeNull();
+    expect(await tokens.getToken()).toBe("token-2");
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refresh ahead of expiry in the background", async () => {
+    const tokens = new TokenManager({
+      getToken: provider,
+      refreshBeforeMs: 10_000,
+    });
+    await tokens.getToken();
+
+    vi.setSystemTime(55_000);
+    expect(await tokens.getToken()).toBe("token-1");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await tokens.getToken()).toBe("token-2");
+  });
+
+  it("should share one provider call between concurrent requests", async () => {
+    const tokens = new TokenManager(provider);
+
+    const results = await Promise.all([tokens.getToken(), tokens.getToken()]);
+
+    expect(results).toEqual(["token-1", "token-1"]);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fetch a new token after invalidate()", async () => {
+    const tokens = new TokenManager(provider);
+    await tokens.getToken();
+
+    tokens.invalidate();
+
+    expect(await tokens.getToken()).toBe("token-2");
+  });
+
+  it("should reject malformed tokens", async () => {
+    const tokens = new TokenManager(async () => ({ token: "", expiresAt: 1 }));
+
+    await expect(tokens.getToken()).rejects.toThrow(ConfigError);
+    expect(
+      () =>
+        new TokenManager({} as ConstructorParameters<typeof TokenManager>[0]),
+    ).toThrow("auth must be a function or { getToken }");
+  });
+});
+
+describe("StreamClient - auth", () => {
+  const keepalive = { status: "ok", stream_id: "test-id", ttl_seconds: 30 };
+
+  it("should send tokens and retry a 401 once with a new token", async () => {
+    let issued = 0;
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      auth: async () => ({
+        token: `token-${++issued}`,
+        expiresAt: Date.now() + 60_000,
+      }),
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ error: "unauthorized" }, { status: 401 }),
+        )
+        .mockResolvedValueOnce(jsonResponse(keepalive)),
+    );
+
+    await expect(client.renewLease("test-id")).resolves.toEqual(keepalive);
+
+    const headers = vi
+      .mocked(fetch)
+      .mock.calls.map(([, init]) =>
+        new Headers(init?.headers).get("Authorization"),
+      );
+    expect(headers).toEqual(["Bearer token-1", "Bearer token-2"]);
+  });
+
+  it("should fail on a second 401", async () => {
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      auth: async () => ({ token: "token", expiresAt: Date.now() + 60_000 }),
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: "unauthorized" }, { status: 401 }),
+        ),
+    );
+
+    await expect(client.renewLease("test-id")).rejects.toThrow(
+      UnauthorizedError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry a 401 with an API key", async () => {
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      apiKey: "test-api-key",
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: "unauthorized" }, { status: 401 }),
+        ),
+    );
+
+    await expect(client.renewLease("test-id")).rejects.toThrow(
+      UnauthorizedError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should mint scoped tokens", async () => {
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      apiKey: "test-api-key",
+    });
+    const minted = {
+      token: "short-lived",
+      expires_at: "2026-01-01T00:10:00Z",
+      scopes: ["streams:create"],
+    };
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(minted)));
+
+    await expect(
+      client.createToken({ ttl_seconds: 600, scopes: ["streams:create"] }),
+    ).resolves.toEqual(minted);
+    expect(fetch).toHaveBeenCalledWith(
+      "http://test.local/auth/tokens",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ ttl_seconds: 600, scopes: ["streams:create"] }),
+      }),
+    );
+  });
+});
+
+describe("RealtimeVision - auth", () => {
+  let mocks: BrowserMocks;
+  let issued: number;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    createBaseVision({
+      apiKey: undefined,
+      auth: async () => ({
+        token: `token-${++issued}`,
+        expiresAt: Date.now() + 60_000,
+      }),
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    issued = 0;
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should authenticate requests and the WebSocket with the token", async () => {
+    const vision = createVision();
+    await vision.start();
+    mocks.sockets[0]!.open();
+
+    const [{ init }] = mocks.requests();
+    expect(new Headers(init.headers).get("Authorization")).toBe(
+      "Bearer token-1",
+    );
+    expect(mocks.sockets[0]!.send).toHaveBeenCalledWith(
+      JSON.stringify({ api_key: "token-1" }),
+    );
+
+    await vision.stop();
+  });
+
+  it("should retry a 1008 close once with a new token", async () => {
+    const onError = vi.fn();
+    const vision = createVision({ onError });
+    await vision.start();
+    mocks.sockets[0]!.open();
+
+    mocks.sockets[0]!.serverClose(1008);
+    expect(mocks.sockets).toHaveLength(2);
+    mocks.sockets[1]!.open();
+    await flush();
+    expect(mocks.sockets[1]!.send).toHaveBeenCalledWith(
+      JSON.stringify({ api_key: "token-2" }),
+    );
+    expect(onError).not.toHaveBeenCalled();
+
+    mocks.sockets[1]!.serverClose(1008);
+    await flush();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ closeCode: 1008 }),
+    );
+    expect(vision.getState()).toBe("failed");
+  });
+
+  it("should require apiKey or auth", () => {
+    expect(
+      () =>
+        new RealtimeVision({
+          apiUrl: API_URL,
+          prompt: "test prompt",
+          onResult: () => {},
+        }),
+    ).toThrow("apiKey is required and must be a string");
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { ChangeDetector } from "../change";
+import { RealtimeVision } from "../RealtimeVision";
+import { inferenceResult, mockBrowser, type BrowserMocks } from "./helpers";
+
+describe("ChangeDetector", () => {
+  const result = <T>(parsed: T) => ({ parsed });
+
+  it("should emit the first result and then only changes", () => {
+    const detector = new ChangeDetector<{ parsed: string }>();
+
+    expect(detector.push(result("a"))).toEqual({
+      prev: null,
+      next: result("a"),
+    });
+    expect(detector.push(result("a"))).toBeNull();
+    expect(detector.push(result("b"))).toEqual({
+      prev: result("a"),
+      next: result("b"),
+    });
+  });
+
+  it("should compare structured results deeply", () => {
+    const detector = new ChangeDetector<{ parsed: object }>();
+    detector.push(result({ count: 1, tags: ["x"] }));
+
+    expect(detector.push(result({ tags: ["x"], count: 1 }))).toBeNull();
+    expect(detector.push(result({ count: 1, tags: ["y"] }))).not.toBeNull();
+  });
+
+  it("should only compare the given key paths", () => {
+    const detector = new ChangeDetector<{ parsed: Record<string, unknown> }>({
+      compare: ["count", "objects.0"],
+    });
+    detector.push(result({ count: 1, objects: ["cat"], caption: "a cat" }));
+
+    expect(
+      detector.push(result({ count: 1, objects: ["cat"], caption: "cat" })),
+    ).toBeNull();
+    expect(
+      detector.push(result({ count: 1, objects: ["dog"], caption: "cat" })),
+    ).not.toBeNull();
+  });
+
+  it("should use a custom comparator", () => {
+    const detector = new ChangeDetector<{ parsed: number }>({
+      compare: (prev, next) => Math.abs(prev - next) < 5,
+    });
+    detector.push(result(10));
+
+    expect(detector.push(result(12))).toBeNull();
+    expect(detector.push(result(20))?.next.parsed).toBe(20);
+  });
+
+  it("should require a stable window of agreeing results", () => {
+    const detector = new ChangeDetector<{ parsed: string }>({
+      stabilityWindow: 3,
+    });
+
+    expect(detector.push(result("a"))).toBeNull();
+    expect(detector.push(result("a"))).toBeNull();
+    expect(detector.push(result("a"))?.next.parsed).toBe("a");
+
+    // A flicker shorter than the window is ignored
+    expect(detector.push(result("b"))).toBeNull();
+    expect(detector.push(result("a"))).toBeNull();
+    expect(detector.push(result("b"))).toBeNull();
+    expect(detector.push(result("b"))).toBeNull();
+    expect(detector.push(result("b"))).toEqual({
+      prev: result("a"),
+      next: result("b"),
+    });
+  });
+});
+
+describe("RealtimeVision - change events", () => {
+  let mocks: BrowserMocks;
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const sendResult = (result: string, ok = true) =>
+    mocks.socket.receive(
+      inferenceResult({ result, ok, error: ok ? null : "failed" }),
+    );
+
+  it("should call onChange alongside the raw results", async () => {
+    const onResult = vi.fn();
+    const onChange = vi.fn();
+    const vision = new RealtimeVision({
+      apiUrl: "https://api.test.com",
+      apiKey: "test-key",
+      prompt: "test prompt",
+      onResult,
+      onChange,
+      changeDetection: { stabilityWindow: 2 },
+    });
+
+    await vision.start();
+    for (const value of ["empty", "empty", "empty", "person", "person"]) {
+      sendResult(value);
+    }
+    sendResult("", false);
+
+    expect(onResult).toHaveBeenCalledTimes(6);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[0]![0]).toBeNull();
+    expect(onChange.mock.calls[0]![1].parsed).toBe("empty");
+    expect(onChange.mock.calls[1]![0].parsed).toBe("empty");
+    expect(onChange.mock.calls[1]![1].parsed).toBe("person");
+
+    await vision.stop();
+  });
+
+  it("should reject an invalid stability window", () => {
+    expect(
+      () =>
+        new RealtimeVision({
+          apiUrl: "https://api.test.com",
+          apiKey: "test-key",
+          prompt: "test prompt",
+          onResult: () => {},
+          changeDetection: { stabilityWindow: 0 },
+        }),
+    ).toThrow("changeDetection.stabilityWindow must be a positive integer");
+  });
+});
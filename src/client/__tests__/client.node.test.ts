@@ -0,0 +1,82 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { StreamClient } from "../client";
+import { WebSocketError } from "../errors";
+
+describe("StreamClient - server runtimes", () => {
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  it("should run without browser globals", () => {
+    expect(typeof document).toBe("undefined");
+    expect(typeof window).toBe("undefined");
+  });
+
+  it("should use an injected fetch", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ status: "ok", stream_id: "test-id", ttl_seconds: 30 }),
+      );
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      apiKey: "test-api-key",
+      fetch,
+    });
+
+    await expect(client.renewLease("test-id")).resolves.toEqual({
+      status: "ok",
+      stream_id: "test-id",
+      ttl_seconds: 30,
+    });
+
+    const [url, init] = fetch.mock.calls[0]!;
+    expect(url).toBe("http://test.local/streams/test-id/keepalive");
+    expect(init.headers.Authorization).toBe("Bearer test-api-key");
+    expect(init).not.toHaveProperty("credentials");
+  });
+
+  it("should send the configured credentials mode", async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse([]));
+    const client = new StreamClient({
+      baseUrl: "http://test.local",
+      apiKey: "test-api-key",
+      fetch,
+      credentials: "omit",
+    });
+
+    await client.getAllFeedback();
+
+    expect(fetch.mock.calls[0]![1].credentials).toBe("omit");
+  });
+
+  it("should connect with an injected WebSocket constructor", () => {
+    const WebSocket = vi.fn();
+    const client = new StreamClient({
+      baseUrl: "https://test.local",
+      apiKey: "test-api-key",
+      WebSocket,
+    });
+
+    client.connectWebSocket("test-id");
+
+    expect(WebSocket).toHaveBeenCalledWith(
+      "wss://test.local/ws/streams/test-id",
+    );
+  });
+
+  it("should explain a missing WebSocket implementation", () => {
+    vi.stubGlobal("WebSocket", undefined);
+    const client = new StreamClient({
+      baseUrl: "https://test.local",
+      apiKey: "test-api-key",
+    });
+
+    expect(() => client.connectWebSocket("test-id")).toThrow(WebSocketError);
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { StreamClient } from "../client";
-import { ValidationError, NotFoundError, NetworkError } from "../errors";
+import {
+  ValidationError,
+  NotFoundError,
+  NetworkError,
+  ServerError,
+  ApiError,
+} from "../errors";
 
 describe("StreamClient", () => {
   let client: StreamClient;
@@ -94,6 +100,132 @@ describe("StreamClient", () => {
     });
   });
 
+  describe("config updates", () => {
+    const mockConfig = {
+      id: "config-id",
+      stream_id: "test-id",
+      prompt: "test",
+      backend: "overshoot",
+      model: "new-model",
+    };
+
+    beforeEach(() => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers(),
+        json: async () => mockConfig,
+      });
+    });
+
+    it("should patch the inference config", async () => {
+      const result = await client.updateInference("test-id", {
+        model: "new-model",
+        output_schema_json: { type: "object" },
+      });
+
+      expect(result).toEqual(mockConfig);
+      expect(fetch).toHaveBeenCalledWith(
+        "http://test.local/streams/test-id/config/inference",
+        expect.objectContaining({
+          method: "PATCH",
+          body: JSON.stringify({
+            model: "new-model",
+            output_schema_json: { type: "object" },
+          }),
+        }),
+      );
+    });
+
+    it("should patch the processing config", async () => {
+      await client.updateProcessing("test-id", { sampling_ratio: 0.5 });
+
+      expect(fetch).toHaveBeenCalledWith(
+        "http://test.local/streams/test-id/config/processing",
+        expect.objectContaining({
+          method: "PATCH",
+          body: JSON.stringify({ sampling_ratio: 0.5 }),
+        }),
+      );
+    });
+  });
+
+  describe("stream lifecycle", () => {
+    const jsonResponse = (body: any) => ({
+      ok: true,
+      headers: new Headers(),
+      json: async () => body,
+    });
+
+    it("should close a stream", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ status: "ok", stream_id: "test-id" }),
+        );
+
+      await expect(client.closeStream("test-id")).resolves.toEqual({
+        status: "ok",
+        stream_id: "test-id",
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        "http://test.local/streams/test-id/close",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("should get a stream", async () => {
+      const stream = {
+        stream_id: "test-id",
+        status: "active",
+        config: {
+          id: "config-id",
+          stream_id: "test-id",
+          prompt: "test",
+          backend: "overshoot",
+          model: "test-model",
+        },
+        lease: { ttl_seconds: 300, expires_at: "2026-01-01T00:05:00Z" },
+        created_at: "2026-01-01T00:00:00Z",
+      };
+      global.fetch = vi.fn().mockResolvedValue(jsonResponse(stream));
+
+      await expect(client.getStream("test-id")).resolves.toEqual(stream);
+      expect(fetch).toHaveBeenCalledWith(
+        "http://test.local/streams/test-id",
+        expect.objectContaining({ method: "GET" }),
+      );
+    });
+
+    it("should list streams with filters", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ streams: [], next_cursor: null }));
+
+      await client.listStreams();
+      await client.listStreams({ status: "active", limit: 10, cursor: "c1" });
+
+      const urls = (fetch as any).mock.calls.map(([url]: [string]) => url);
+      expect(urls).toEqual([
+        "http://test.local/streams",
+        "http://test.local/streams?status=active&limit=10&cursor=c1",
+      ]);
+    });
+
+    it("should not send a beacon on unload without keepalive", () => {
+      global.fetch = vi.fn();
+      const sendBeacon = vi.fn().mockReturnValue(true);
+      vi.stubGlobal("Request", undefined);
+      vi.stubGlobal("navigator", { sendBeacon });
+
+      // A beacon would have to carry the API key in its body
+      expect(client.closeStreamOnUnload("test-id")).toBe(false);
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(fetch).not.toHaveBeenCalled();
+
+      vi.unstubAllGlobals();
+    });
+  });
+
   describe("error handling", () => {
     it("should throw NetworkError on fetch failure", async () => {
       global.fetch = vi.fn().mockRejectedValue(new Error("Network failed"));
@@ -102,6 +234,165 @@ describe("StreamClient", () => {
     });
   });
 
+  describe("retries, timeouts and cancellation", () => {
+    const mockResponse = (
+      status: number,
+      body: any,
+      headers: Record<string, string> = {},
+    ) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: new Headers(headers),
+      json: async () => body,
+    });
+
+    const keepalive = { status: "ok", stream_id: "test-id", ttl_seconds: 30 };
+
+    beforeEach(() => {
+      client = new StreamClient({
+        baseUrl: "http://test.local",
+        apiKey: "test-api-key",
+        retry: { initialDelayMs: 1, maxDelayMs: 10 },
+      });
+    });
+
+    it("should retry 5xx responses and succeed", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(503, { error: "unavailable" }))
+        .mockResolvedValueOnce(mockResponse(200, keepalive));
+
+      await expect(client.renewLease("test-id")).resolves.toEqual(keepalive);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry network errors", async () => {
+      global.fetch = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Network failed"))
+        .mockResolvedValueOnce(mockResponse(200, keepalive));
+
+      await expect(client.renewLease("test-id")).resolves.toEqual(keepalive);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up after maxRetries", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(mockResponse(500, { error: "server_error" }));
+
+      await expect(
+        client.renewLease("test-id", { retry: { maxRetries: 1 } }),
+      ).rejects.toThrow(ServerError);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry when disabled per call", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(mockResponse(500, { error: "server_error" }));
+
+      await expect(
+        client.renewLease("test-id", { retry: false }),
+      ).rejects.toThrow(ServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry non-idempotent POSTs", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(mockResponse(500, { error: "server_error" }));
+
+      await expect(
+        client.submitFeedback("test-id", { rating: 5, category: "good" }),
+      ).rejects.toThrow(ServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reuse the idempotency key when retrying createStream", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(mockResponse(502, { error: "bad_gateway" }))
+        .mockResolvedValueOnce(
+          mockResponse(200, {
+            stream_id: "test-id",
+            webrtc: { type: "answer", sdp: "mock-sdp" },
+          }),
+        );
+
+      await client.createStream(
+        {
+          webrtc: { type: "offer", sdp: "test-sdp" },
+          processing: { sampling_ratio: 0.5, fps: 30 },
+          inference: { prompt: "test", backend: "gemini", model: "test" },
+        },
+        { idempotencyKey: "key-1" },
+      );
+
+      const calls = (fetch as any).mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][1].headers["Idempotency-Key"]).toBe("key-1");
+      expect(calls[1][1].headers["Idempotency-Key"]).toBe("key-1");
+    });
+
+    it("should honor Retry-After", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          mockResponse(429, { error: "rate_limited" }, { "Retry-After": "0" }),
+        )
+        .mockResolvedValueOnce(mockResponse(200, keepalive));
+
+      await expect(client.renewLease("test-id")).resolves.toEqual(keepalive);
+    });
+
+    it("should fail instead of waiting for a long Retry-After", async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(
+          mockResponse(429, { error: "rate_limited" }, { "Retry-After": "60" }),
+        );
+
+      await expect(client.renewLease("test-id")).rejects.toThrow(ApiError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out slow requests", async () => {
+      global.fetch = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () =>
+              reject(new Error("aborted")),
+            );
+          }),
+      ) as any;
+
+      await expect(
+        client.renewLease("test-id", { timeoutMs: 5, retry: false }),
+      ).rejects.toThrow("Request timed out after 5ms");
+    });
+
+    it("should abort with an external signal without retrying", async () => {
+      const controller = new AbortController();
+      global.fetch = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () =>
+              reject(new Error("aborted")),
+            );
+          }),
+      ) as any;
+
+      const pending = client.renewLease("test-id", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(NetworkError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("connectWebSocket", () => {
     it("should create WebSocket with correct URL", () => {
       const ws = client.connectWebSocket("test-id");
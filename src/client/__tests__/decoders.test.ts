@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import {
+  decode,
+  decodeServerMessage,
+  streamCreateResponse,
+  streamListResponse,
+} from "../decoders";
+import { StreamClient } from "../client";
+import { LeaseExpiredError, ProtocolError, ServerError } from "../errors";
+import {
+  createVision,
+  inferenceResult,
+  jsonResponse,
+  mockBrowser,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("decoders", () => {
+  it("should accept valid payloads with unknown fields", () => {
+    const response = {
+      stream_id: "test-id",
+      webrtc: { type: "answer", sdp: "sdp" },
+      turn_servers: [{ urls: ["turn:a", "turn:b"], username: "u" }],
+      region: "eu",
+    };
+
+    expect(decode(streamCreateResponse, response, "response")).toBe(response);
+  });
+
+  it("should list every mismatch with its path", () => {
+    let error: ProtocolError | undefined;
+    try {
+      decode(
+        streamListResponse,
+        { streams: [{ stream_id: 1, status: "gone" }], next_cursor: null },
+        "response from GET /streams",
+      );
+    } catch (e) {
+      error = e as ProtocolError;
+    }
+
+    expect(error).toBeInstanceOf(ProtocolError);
+    expect(error!.code).toBe("protocol_error");
+    expect(error!.issues).toEqual([
+      "streams[0].stream_id must be a string, got number",
+      'streams[0].status must be one of "active", "closed", "expired", got string',
+      "streams[0].config must be an object, got undefined",
+      "streams[0].created_at must be a string, got undefined",
+    ]);
+    expect(error!.message).toMatch(/^Unexpected response from GET \/streams: /);
+  });
+
+  it("should sort WebSocket messages by kind", () => {
+    expect(decodeServerMessage(inferenceResult()).kind).toBe("result");
+    expect(
+      decodeServerMessage({ type: "error", error: "inference_unavailable" })
+        .kind,
+    ).toBe("error");
+    expect(decodeServerMessage({ type: "stats", fps: 5 })).toEqual({
+      kind: "unknown",
+      message: { type: "stats", fps: 5 },
+    });
+    expect(() => decodeServerMessage({ result: "hello" })).toThrow(
+      ProtocolError,
+    );
+  });
+});
+
+describe("StreamClient - response validation", () => {
+  const client = new StreamClient({
+    baseUrl: "http://test.local",
+    apiKey: "test-api-key",
+  });
+
+  it("should reject a malformed response", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ stream_id: "test-id", webrtc: { type: "answer" } }),
+        ),
+    );
+
+    await expect(
+      client.createStream({
+        webrtc: { type: "offer", sdp: "offer" },
+        processing: { sampling_ratio: 0.1, fps: 30 },
+        inference: { prompt: "test", backend: "overshoot", model: "m" },
+      }),
+    ).rejects.toThrow(
+      "Unexpected response from POST /streams: webrtc.sdp must be a string, got undefined",
+    );
+  });
+
+  it("should fall back to the status text for unrecognized error bodies", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        jsonResponse("<html>bad gateway</html>", {
+          status: 502,
+          statusText: "Bad Gateway",
+        }),
+      ),
+    );
+
+    await expect(client.getAllFeedback({ retry: false })).rejects.toThrow(
+      new ServerError("Bad Gateway"),
+    );
+  });
+});
+
+describe("RealtimeVision - server messages", () => {
+  let mocks: BrowserMocks;
+
+  const send = (message: unknown) => mocks.socket.receive(message);
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should route notices to typed events instead of onResult", async () => {
+    const onResult = vi.fn();
+    const onServerError = vi.fn();
+    const onLeaseExpiring = vi.fn();
+    const onServerMessage = vi.fn();
+    const vision = createVision({ onResult });
+    vision.on("serverError", onServerError);
+    vision.on("leaseExpiring", onLeaseExpiring);
+    vision.on("serverMessage", onServerMessage);
+    await vision.start();
+
+    send({ type: "error", error: "inference_unavailable", message: "busy" });
+    send({
+      type: "lease_expiring",
+      stream_id: STREAM_ID,
+      ttl_seconds: 5,
+    });
+    send({ type: "stats", fps: 5 });
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(vision.getState()).toBe("waiting-for-result");
+    expect(onServerError).toHaveBeenCalledWith({
+      type: "error",
+      error: "inference_unavailable",
+      message: "busy",
+    });
+    expect(onLeaseExpiring).toHaveBeenCalledWith({
+      streamId: STREAM_ID,
+      ttlSeconds: 5,
+    });
+    expect(onServerMessage).toHaveBeenCalledWith({ type: "stats", fps: 5 });
+
+    await vision.stop();
+  });
+
+  it("should report malformed results as non-fatal protocol errors", async () => {
+    const onResult = vi.fn();
+    const onError = vi.fn();
+    const vision = createVision({ onResult, onError });
+    await vision.start();
+
+    send({ result: "hello" });
+    send(inferenceResult({ result: "hello" }));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(ProtocolError));
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(vision.getState()).toBe("running");
+
+    await vision.stop();
+  });
+
+  it("should fail the session on a lease_expired notice", async () => {
+    const onError = vi.fn();
+    const vision = createVision({ onError });
+    await vision.start();
+
+    send({ type: "lease_expired", stream_id: STREAM_ID });
+    await vi.waitFor(() => expect(vision.getState()).toBe("failed"));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(LeaseExpiredError));
+  });
+});
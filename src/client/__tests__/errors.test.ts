@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { StreamClient } from "../client";
+import { createVision, jsonResponse, setMediaDevices } from "./helpers";
+import {
+  ApiError,
+  ConfigError,
+  ConflictError,
+  ForbiddenError,
+  InvalidStateError,
+  MediaAccessError,
+  NetworkError,
+  OvershootError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+  WebSocketError,
+} from "../errors";
+
+describe("error taxonomy", () => {
+  it("should expose stable codes and retryable flags", () => {
+    const cases: Array<[OvershootError, string, boolean]> = [
+      [new UnauthorizedError("x"), "unauthorized", false],
+      [new ForbiddenError("x"), "forbidden", false],
+      [new ValidationError("x"), "validation_error", false],
+      [new ConflictError("x"), "conflict", false],
+      [new ConfigError("x"), "config_error", false],
+      [new InvalidStateError("x"), "invalid_state", false],
+      [new RateLimitError("x", 2), "rate_limited", true],
+      [new ServerError("x"), "server_error", true],
+      [new NetworkError("x"), "network_error", true],
+      [new TimeoutError("x", 100), "timeout", true],
+      [new MediaAccessError("x", "denied"), "media_access_error", false],
+      [new WebSocketError("x", 1006), "websocket_error", true],
+      [new WebSocketError("x", 1008), "websocket_error", false],
+    ];
+
+    for (const [error, code, retryable] of cases) {
+      expect(error).toBeInstanceOf(OvershootError);
+      expect(error.code).toBe(code);
+      expect(error.retryable).toBe(retryable);
+    }
+  });
+
+  it("should keep TimeoutError a NetworkError", () => {
+    expect(new TimeoutError("x", 100)).toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("StreamClient status mapping", () => {
+  const client = new StreamClient({
+    baseUrl: "http://test.local",
+    apiKey: "test-api-key",
+    retry: false,
+  });
+
+  const respond = (
+    status: number,
+    headers: Record<string, string> = {},
+  ): void => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse(
+            { error: "error", message: "failed" },
+            { status, headers },
+          ),
+        ),
+    );
+  };
+
+  it("should map 403 to ForbiddenError", async () => {
+    respond(403);
+    await expect(client.renewLease("id")).rejects.toThrow(ForbiddenError);
+  });
+
+  it("should map 409 to ConflictError", async () => {
+    respond(409);
+    await expect(client.renewLease("id")).rejects.toThrow(ConflictError);
+  });
+
+  it("should map 429 to RateLimitError with retryAfter", async () => {
+    respond(429, { "Retry-After": "7" });
+    const error = await client.renewLease("id").catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(7);
+  });
+
+  it("should map other statuses to ApiError", async () => {
+    respond(418);
+    const error = await client.renewLease("id").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.code).toBe("api_error");
+    expect(error.statusCode).toBe(418);
+  });
+});
+
+describe("RealtimeVision error types", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should report a denied camera as MediaAccessError", async () => {
+    const denied = new Error("Permission denied");
+    denied.name = "NotAllowedError";
+    setMediaDevices({ getUserMedia: vi.fn().mockRejectedValue(denied) });
+    const onError = vi.fn();
+
+    const vision = createVision({
+      source: { type: "camera", cameraFacing: "user" },
+      onError,
+    });
+
+    const error = await vision.start().catch((e) => e);
+    expect(error).toBeInstanceOf(MediaAccessError);
+    expect(error.reason).toBe("denied");
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it("should throw ConfigError for invalid config, not the HTTP ValidationError", () => {
+    let error: unknown;
+    try {
+      createVision({ apiUrl: "" });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error).not.toBeInstanceOf(ApiError);
+  });
+
+  it("should throw InvalidStateError when not running", async () => {
+    const vision = createVision();
+
+    await expect(vision.updatePrompt("new prompt")).rejects.toThrow(
+      InvalidStateError,
+    );
+    await expect(vision.pause()).rejects.toThrow(InvalidStateError);
+  });
+});
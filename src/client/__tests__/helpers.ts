@@ -0,0 +1,319 @@
+import { vi, type Mock } from "vitest";
+import { RealtimeVision, type RealtimeVisionConfig } from "../RealtimeVision";
+import type { StreamInferenceResult } from "../types";
+
+/**
+ * Browser and server mocks shared by the RealtimeVision tests. Tests that
+ * need a simulated backend rather than call-level mocks use
+ * @overshoot/sdk/testing instead.
+ */
+
+export const API_URL = "https://api.test.com";
+export const STREAM_ID = "test-stream-id";
+
+export type MockWebSocket = {
+  readonly url: string;
+  send: Mock;
+  close: Mock;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  /**
+   * Fire onopen
+   */
+  open(): void;
+  /**
+   * Deliver a server message; anything but a string is sent as JSON
+   */
+  receive(message: unknown): void;
+  /**
+   * Fire onclose as if the server closed the connection
+   */
+  serverClose(code: number, reason?: string): void;
+};
+
+export type MockSender = { replaceTrack: Mock };
+
+export type MockPeerConnection = {
+  configuration: RTCConfiguration;
+  iceConnectionState: RTCIceConnectionState;
+  localDescription: RTCSessionDescriptionInit;
+  /**
+   * Returned by addTrack()
+   */
+  sender: MockSender;
+  onicecandidate: ((event: RTCPeerConnectionIceEvent) => void) | null;
+  oniceconnectionstatechange: ((event: Event) => void) | null;
+  addTrack: Mock;
+  createOffer: Mock;
+  setLocalDescription: Mock;
+  setRemoteDescription: Mock;
+  getConfiguration: Mock;
+  setConfiguration: Mock;
+  getStats: Mock;
+  close: Mock;
+  /**
+   * Change iceConnectionState and fire oniceconnectionstatechange
+   */
+  setIceConnectionState(state: RTCIceConnectionState): void;
+};
+
+export type MockTrack = MediaStreamTrack & { stop: Mock };
+
+export type MockMediaDevices = {
+  getUserMedia: Mock;
+  getDisplayMedia: Mock;
+  enumerateDevices: Mock;
+};
+
+export type FetchRequest = {
+  url: string;
+  init: RequestInit;
+  /**
+   * The JSON request body, undefined without one
+   */
+  body: ReturnType<typeof JSON.parse>;
+};
+
+export type BrowserMocks = {
+  /**
+   * Answers every request with streamCreated() unless replaced
+   */
+  fetch: Mock<Parameters<typeof fetch>, Promise<Response>>;
+  sockets: MockWebSocket[];
+  peerConnections: MockPeerConnection[];
+  mediaDevices: MockMediaDevices;
+  /**
+   * Tracks of the streams getUserMedia() and getDisplayMedia() resolved
+   * with, one per call
+   */
+  tracks: MockTrack[];
+  /**
+   * The most recently opened WebSocket
+   */
+  readonly socket: MockWebSocket;
+  /**
+   * Answer requests with a handler instead of streamCreated()
+   */
+  respond(
+    handler: (url: string, init: RequestInit) => Response | Promise<Response>,
+  ): void;
+  /**
+   * Requests sent so far, optionally only those whose URL ends with a suffix
+   */
+  requests(suffix?: string): FetchRequest[];
+};
+
+/**
+ * A fetch Response with a JSON body
+ */
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  const status = init.status ?? 200;
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: init.statusText ?? "",
+    headers: new Headers(init.headers),
+    json: async () => body,
+  } as Response;
+}
+
+/**
+ * Body of a successful POST /streams
+ */
+export const streamCreated = (overrides: Record<string, unknown> = {}) => ({
+  stream_id: STREAM_ID,
+  webrtc: { type: "answer", sdp: "mock-sdp" },
+  lease: { ttl_seconds: 300 },
+  ...overrides,
+});
+
+export const inferenceResult = (
+  overrides: Partial<StreamInferenceResult> = {},
+): StreamInferenceResult => ({
+  id: "r1",
+  stream_id: STREAM_ID,
+  model_backend: "overshoot",
+  model_name: "test-model",
+  prompt: "test prompt",
+  result: "ok",
+  inference_latency_ms: 100,
+  total_latency_ms: 200,
+  ok: true,
+  error: null,
+  ...overrides,
+});
+
+export function createTrack(
+  settings: MediaTrackSettings = { frameRate: 30 },
+): MockTrack {
+  const track = Object.assign(new EventTarget(), {
+    kind: "video",
+    readyState: "live",
+    getSettings: () => settings,
+    stop: vi.fn(),
+  });
+  return track as unknown as MockTrack;
+}
+
+export function createMediaStream(
+  track: MockTrack = createTrack(),
+): MediaStream {
+  return {
+    getVideoTracks: () => [track],
+    getTracks: () => [track],
+  } as unknown as MediaStream;
+}
+
+/**
+ * Replace navigator.mediaDevices, which jsdom does not provide
+ */
+export function setMediaDevices(mediaDevices: Partial<MockMediaDevices>): void {
+  Object.defineProperty(navigator, "mediaDevices", {
+    value: mediaDevices,
+    configurable: true,
+    writable: true,
+  });
+}
+
+function createSocket(url: string): MockWebSocket {
+  const socket: MockWebSocket = {
+    url,
+    send: vi.fn(),
+    close: vi.fn(),
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null,
+    open: () => socket.onopen?.(new Event("open")),
+    receive: (message) =>
+      socket.onmessage?.(
+        new MessageEvent("message", {
+          data: typeof message === "string" ? message : JSON.stringify(message),
+        }),
+      ),
+    serverClose: (code, reason = "") =>
+      socket.onclose?.(new CloseEvent("close", { code, reason })),
+  };
+  return socket;
+}
+
+function createPeerConnection(
+  configuration: RTCConfiguration,
+): MockPeerConnection {
+  const sender: MockSender = {
+    replaceTrack: vi.fn().mockResolvedValue(undefined),
+  };
+  const pc: MockPeerConnection = {
+    configuration,
+    iceConnectionState: "new",
+    localDescription: { type: "offer", sdp: "mock-sdp" },
+    sender,
+    onicecandidate: null,
+    oniceconnectionstatechange: null,
+    addTrack: vi.fn(() => sender),
+    createOffer: vi.fn().mockResolvedValue({ type: "offer", sdp: "mock-sdp" }),
+    setLocalDescription: vi.fn(),
+    setRemoteDescription: vi.fn(),
+    getConfiguration: vi.fn(() => pc.configuration),
+    setConfiguration: vi.fn((next: RTCConfiguration) => {
+      pc.configuration = next;
+    }),
+    getStats: vi.fn().mockResolvedValue(new Map()),
+    close: vi.fn(),
+    setIceConnectionState: (state) => {
+      pc.iceConnectionState = state;
+      pc.oniceconnectionstatechange?.(new Event("iceconnectionstatechange"));
+    },
+  };
+  return pc;
+}
+
+/**
+ * Install mocked fetch, WebSocket, RTCPeerConnection and media devices.
+ * Call in beforeEach; every call starts from fresh mocks.
+ */
+export function mockBrowser(): BrowserMocks {
+  const sockets: MockWebSocket[] = [];
+  const peerConnections: MockPeerConnection[] = [];
+  const tracks: MockTrack[] = [];
+  const capture = async () => {
+    const track = createTrack();
+    tracks.push(track);
+    return createMediaStream(track);
+  };
+
+  const fetchMock = vi.fn<Parameters<typeof fetch>, Promise<Response>>(
+    async () => jsonResponse(streamCreated()),
+  );
+  const mediaDevices: MockMediaDevices = {
+    getUserMedia: vi.fn(capture),
+    getDisplayMedia: vi.fn(capture),
+    enumerateDevices: vi.fn().mockResolvedValue([]),
+  };
+
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubGlobal(
+    "WebSocket",
+    vi.fn((url: string) => {
+      const socket = createSocket(url);
+      sockets.push(socket);
+      return socket;
+    }),
+  );
+  vi.stubGlobal(
+    "RTCPeerConnection",
+    vi.fn((configuration: RTCConfiguration = {}) => {
+      const pc = createPeerConnection(configuration);
+      peerConnections.push(pc);
+      return pc;
+    }),
+  );
+  setMediaDevices(mediaDevices);
+
+  return {
+    fetch: fetchMock,
+    sockets,
+    peerConnections,
+    mediaDevices,
+    tracks,
+    get socket() {
+      const socket = sockets[sockets.length - 1];
+      if (!socket) {
+        throw new Error("No WebSocket was opened");
+      }
+      return socket;
+    },
+    respond(handler) {
+      fetchMock.mockImplementation(async (input, init = {}) =>
+        handler(String(input), init),
+      );
+    },
+    requests(suffix = "") {
+      return fetchMock.mock.calls
+        .map(([input, init = {}]) => ({
+          url: String(input),
+          init,
+          body:
+            typeof init.body === "string" ? JSON.parse(init.body) : undefined,
+        }))
+        .filter(({ url }) => url.endsWith(suffix));
+    },
+  };
+}
+
+/**
+ * A session against API_URL with a placeholder prompt and result handler
+ */
+export function createVision(
+  overrides: Partial<RealtimeVisionConfig> = {},
+): RealtimeVision {
+  return new RealtimeVision<unknown, undefined>({
+    apiUrl: API_URL,
+    apiKey: "test-key",
+    prompt: "test prompt",
+    onResult: () => {},
+    ...overrides,
+  });
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { ResultHistory, type HistoryStorage } from "../history";
+import { RealtimeVision, type RealtimeVisionResult } from "../RealtimeVision";
+import { createVision, mockBrowser, type BrowserMocks } from "./helpers";
+
+const result = (
+  overrides: Partial<RealtimeVisionResult> = {},
+): RealtimeVisionResult =>
+  ({
+    id: "r1",
+    stream_id: "s1",
+    model_backend: "overshoot",
+    model_name: "test-model",
+    prompt: "count people",
+    result: "2",
+    inference_latency_ms: 100,
+    total_latency_ms: 150,
+    ok: true,
+    error: null,
+    parsed: "2",
+    ...overrides,
+  }) as RealtimeVisionResult;
+
+describe("ResultHistory", () => {
+  it("should keep only the most recent maxEntries", async () => {
+    const history = new ResultHistory({ maxEntries: 2 });
+    await history.record(result({ id: "a" }), 1000);
+    await history.record(result({ id: "b" }), 2000);
+    await history.record(result({ id: "c" }), 3000);
+
+    const entries = await history.query();
+    expect(entries.map((entry) => entry.result.id)).toEqual(["b", "c"]);
+    expect(entries[0]!.receivedAt).toBe(2000);
+  });
+
+  it("should discard entries older than maxAgeMs", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+    try {
+      const history = new ResultHistory({ maxAgeMs: 5000 });
+      history.record(result({ id: "old" }), 1000);
+      history.record(result({ id: "new" }), 8000);
+
+      expect(await history.size()).toBe(1);
+
+      vi.setSystemTime(14_000);
+      expect(await history.query()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should filter by time range, prompt and ok status", async () => {
+    const history = new ResultHistory();
+    await history.record(result({ id: "a", prompt: "p1" }), 1000);
+    await history.record(
+      result({ id: "b", prompt: "p2", ok: false, parsed: null }),
+      2000,
+    );
+    await history.record(result({ id: "c", prompt: "p1" }), 3000);
+    await history.record(result({ id: "d", prompt: "p1" }), 4000);
+
+    const ids = async (query: Parameters<typeof history.query>[0]) =>
+      (await history.query(query)).map((entry) => entry.result.id);
+
+    expect(await ids({ from: 2000, to: 3000 })).toEqual(["b", "c"]);
+    expect(await ids({ prompt: "p2" })).toEqual(["b"]);
+    expect(await ids({ ok: true })).toEqual(["a", "c", "d"]);
+    expect(await ids({ prompt: "p1", limit: 2 })).toEqual(["c", "d"]);
+  });
+
+  it("should export JSONL and CSV", async () => {
+    const history = new ResultHistory();
+    await history.record(result({ result: 'say "hi", twice' }), 0);
+
+    const jsonl = await history.toJSONL();
+    expect(jsonl.endsWith("\n")).toBe(true);
+    expect(JSON.parse(jsonl.trim())).toMatchObject({
+      receivedAt: 0,
+      result: { result: 'say "hi", twice' },
+    });
+
+    const [header, row] = (await history.toCSV()).trim().split("\r\n");
+    expect(header).toBe(
+      "received_at,id,stream_id,model_backend,model_name,prompt,ok,result,error,inference_latency_ms,total_latency_ms",
+    );
+    expect(row).toBe(
+      '1970-01-01T00:00:00.000Z,r1,s1,overshoot,test-model,count people,true,"say ""hi"", twice",,100,150',
+    );
+  });
+
+  it("should write through a custom storage", async () => {
+    const storage: HistoryStorage = {
+      add: vi.fn().mockResolvedValue(undefined),
+      getRange: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(3),
+      deleteBefore: vi.fn().mockResolvedValue(undefined),
+      deleteOldest: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+    };
+    const history = new ResultHistory({ maxEntries: 2, storage });
+
+    await history.record(result(), 5000);
+    await history.query({ from: 1000, to: 2000 });
+
+    expect(storage.add).toHaveBeenCalledWith({
+      receivedAt: 5000,
+      result: result(),
+    });
+    expect(storage.deleteOldest).toHaveBeenCalledWith(1);
+    expect(storage.getRange).toHaveBeenCalledWith(1000, 2000);
+  });
+
+  it("should reject invalid caps", () => {
+    expect(() => new ResultHistory({ maxEntries: 0 })).toThrow(
+      "maxEntries must be a positive integer",
+    );
+    expect(() => new ResultHistory({ maxAgeMs: -1 })).toThrow(
+      "maxAgeMs must be positive",
+    );
+  });
+});
+
+describe("RealtimeVision - history", () => {
+  let mocks: BrowserMocks;
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should have no history unless enabled", () => {
+    const vision = createVision();
+
+    expect(vision.getHistory()).toBeNull();
+  });
+
+  it("should record results with their receive time", async () => {
+    const vision = createVision({ history: { maxEntries: 10 } });
+
+    await vision.start();
+    const before = Date.now();
+    mocks.socket.receive(result({ result: "one" }));
+    mocks.socket.receive(result({ result: "", ok: false, error: "timeout" }));
+
+    const entries = await vision.getHistory()!.query();
+    expect(entries.map((entry) => entry.result.ok)).toEqual([true, false]);
+    expect(entries[0]!.result.parsed).toBe("one");
+    expect(entries[0]!.receivedAt).toBeGreaterThanOrEqual(before);
+
+    await vision.stop();
+  });
+
+  it("should record results that fail schema validation", async () => {
+    const vision = new RealtimeVision({
+      apiUrl: "https://api.test.com",
+      apiKey: "test-key",
+      prompt: "test prompt",
+      outputSchema: { type: "object", required: ["count"] },
+      onResult: () => {},
+      onError: () => {},
+      history: true,
+    });
+
+    await vision.start();
+    mocks.socket.receive(result({ result: '{"total": 2}' }));
+    mocks.socket.receive(result({ result: "not json" }));
+
+    const entries = await vision.getHistory()!.query({ ok: false });
+    expect(entries).toHaveLength(2);
+    expect(entries[0]!.result).toMatchObject({
+      ok: false,
+      parsed: null,
+      result: '{"total": 2}',
+      error:
+        'Result does not match outputSchema: $: missing required property "count"',
+    });
+    expect(entries[0]!.validationIssues).toEqual([
+      '$: missing required property "count"',
+    ]);
+    expect(entries[1]!.validationIssues).toEqual([]);
+
+    await vision.stop();
+  });
+
+  it("should reject invalid history options", () => {
+    expect(() => createVision({ history: { maxAgeMs: 0 } })).toThrow(
+      "history.maxAgeMs must be positive",
+    );
+  });
+});
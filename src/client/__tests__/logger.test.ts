@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from "vitest";
+import {
+  LeveledLogger,
+  redactSecrets,
+  type Logger,
+  type LogLevel,
+} from "../logger";
+import { StreamClient, type RequestContext } from "../client";
+import { NetworkError, ServerError } from "../errors";
+import { createVision, inferenceResult, jsonResponse } from "./helpers";
+
+type MockLogger = { [K in keyof Logger]: Mock };
+
+const createSink = (): MockLogger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("redactSecrets", () => {
+  it("should redact secrets, bearer tokens and credential fields", () => {
+    expect(
+      redactSecrets(
+        {
+          message: "key sk-test-12345 rejected",
+          headers: { Authorization: "Bearer abc.def" },
+          nested: [{ api_key: "anything" }, "Bearer xyz"],
+        },
+        ["sk-test-12345"],
+      ),
+    ).toEqual({
+      message: "key [REDACTED] rejected",
+      headers: { Authorization: "[REDACTED]" },
+      nested: [{ api_key: "[REDACTED]" }, "Bearer [REDACTED]"],
+    });
+  });
+
+  it("should redact error messages, stacks and causes", () => {
+    const cause = new Error("sent sk-test-12345");
+    const error = new NetworkError("key sk-test-12345 rejected", cause);
+    const redacted = redactSecrets(error, ["sk-test-12345"]) as NetworkError;
+
+    expect(redacted).toBeInstanceOf(NetworkError);
+    expect(redacted.message).toBe("key [REDACTED] rejected");
+    expect(redacted.stack).not.toContain("sk-test-12345");
+    expect((redacted.cause as Error).message).toBe("sent [REDACTED]");
+    expect(error.message).toBe("key sk-test-12345 rejected");
+  });
+
+  it("should pass errors without secrets and other objects through", () => {
+    const error = new Error("failed");
+    const stream = new EventTarget();
+    expect(redactSecrets(error, ["sk-test-12345"])).toBe(error);
+    expect(redactSecrets(stream, ["sk-test-12345"])).toBe(stream);
+  });
+});
+
+describe("LeveledLogger", () => {
+  let sink: MockLogger;
+
+  beforeEach(() => {
+    sink = createSink();
+  });
+
+  it("should drop messages below the level", () => {
+    const logger = new LeveledLogger({ logger: sink, level: "warn" });
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.warn).toHaveBeenCalledWith("warn");
+    expect(sink.error).toHaveBeenCalledWith("error");
+  });
+
+  it("should log nothing when silent", () => {
+    const logger = new LeveledLogger({ logger: sink, level: "silent" });
+
+    logger.error("error");
+
+    expect(sink.error).not.toHaveBeenCalled();
+  });
+
+  it("should prefix messages and redact the current secrets", () => {
+    let token = "token-one-123";
+    const logger = new LeveledLogger({
+      logger: sink,
+      prefix: "[Test]",
+      secrets: () => [token, null],
+    });
+
+    logger.info("using", token);
+    token = "token-two-456";
+    logger.info("using", token);
+
+    expect(sink.info.mock.calls).toEqual([
+      ["[Test]", "using", "[REDACTED]"],
+      ["[Test]", "using", "[REDACTED]"],
+    ]);
+  });
+
+  it("should redact secrets of any length", () => {
+    const logger = new LeveledLogger({
+      logger: sink,
+      secrets: () => ["k3y", ""],
+    });
+
+    logger.warn("rejected k3y");
+
+    expect(sink.warn).toHaveBeenCalledWith("rejected [REDACTED]");
+  });
+});
+
+describe("StreamClient - middleware", () => {
+  const keepalive = { status: "ok", stream_id: "test-id", ttl_seconds: 30 };
+
+  const createClient = (
+    overrides: Partial<ConstructorParameters<typeof StreamClient>[0]> = {},
+  ) =>
+    new StreamClient({
+      baseUrl: "http://test.local",
+      apiKey: "test-api-key",
+      retry: { initialDelayMs: 1 },
+      ...overrides,
+    });
+
+  it("should let onRequest change headers and body per attempt", async () => {
+    const client = createClient({
+      middleware: [
+        {
+          onRequest: (context: RequestContext) => {
+            context.headers.traceparent = `00-trace-${context.attempt}-01`;
+          },
+        },
+      ],
+    });
+    client.use({
+      onRequest: async (context) => {
+        if (context.body) {
+          const body = JSON.parse(context.body as string);
+          context.body = JSON.stringify({
+            ...body,
+            client: { request_id: "req-1" },
+          });
+        }
+      },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ error: "unavailable" }, { status: 503 }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            id: "config-id",
+            stream_id: "test-id",
+            prompt: "new prompt",
+            backend: "overshoot",
+            model: "test-model",
+          }),
+        ),
+    );
+
+    await client.updatePrompt("test-id", "new prompt");
+
+    const inits = vi.mocked(fetch).mock.calls.map(([, init]) => init ?? {});
+    const headers = inits.map((init) => new Headers(init.headers));
+    expect(headers.map((h) => h.get("traceparent"))).toEqual([
+      "00-trace-0-01",
+      "00-trace-1-01",
+    ]);
+    expect(headers[0]!.get("Authorization")).toBe("Bearer test-api-key");
+    expect(JSON.parse(String(inits[0]!.body)).client).toEqual({
+      request_id: "req-1",
+    });
+  });
+
+  it("should pass every response to onResponse and allow replacing it", async () => {
+    const onResponse = vi.fn(() => jsonResponse(keepalive));
+    const client = createClient({ middleware: [{ onResponse }] });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(jsonResponse({}, { status: 500 })),
+    );
+
+    await expect(client.renewLease("test-id")).resolves.toEqual(keepalive);
+    expect(onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "POST",
+        path: "/streams/test-id/keepalive",
+      }),
+      expect.objectContaining({ status: 500 }),
+    );
+  });
+
+  it("should call onError once after retries are exhausted", async () => {
+    const onError = vi.fn();
+    const client = createClient({ middleware: [{ onError }] });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(jsonResponse({}, { status: 503 })),
+    );
+
+    await expect(client.getAllFeedback()).rejects.toThrow(ServerError);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2 }),
+      expect.any(ServerError),
+    );
+  });
+
+  it("should stop calling removed middleware", async () => {
+    const onRequest = vi.fn();
+    const client = createClient();
+    const remove = client.use({ onRequest });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse([])));
+
+    await client.getAllFeedback();
+    remove();
+    await client.getAllFeedback();
+
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should log requests at debug level without the API key", async () => {
+    const sink = createSink();
+    const client = createClient({ logger: sink, logLevel: "debug" });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse([])));
+
+    await client.getAllFeedback();
+
+    expect(sink.debug).toHaveBeenCalledWith(
+      "[StreamClient]",
+      "GET /streams/feedback",
+      {
+        attempt: 0,
+      },
+    );
+    expect(JSON.stringify(sink.debug.mock.calls)).not.toContain("test-api-key");
+  });
+});
+
+describe("RealtimeVision - logger", () => {
+  it("should route logs to the injected logger", () => {
+    const sink = createSink();
+    const vision = createVision({ logger: sink });
+
+    vision.on("result", () => {
+      throw new Error("listener failed");
+    });
+    vision["emit"]("result", { ...inferenceResult(), ok: true, parsed: "ok" });
+
+    expect(sink.error).toHaveBeenCalledWith(
+      "[RealtimeVision]",
+      'Error in "result" listener:',
+      expect.any(Error),
+    );
+  });
+
+  it("should map debug to the debug level and reject unknown levels", () => {
+    const sink = createSink();
+    const vision = createVision({ logger: sink, debug: true });
+
+    vision["logger"].debug("visible");
+    expect(sink.debug).toHaveBeenCalledWith("[RealtimeVision]", "visible");
+
+    expect(() => createVision({ logLevel: "verbose" as LogLevel })).toThrow(
+      "logLevel must be one of: debug, info, warn, error, silent",
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import {
+  MetricsCollector,
+  percentile,
+  readOutboundVideoStats,
+} from "../metrics";
+import {
+  createVision,
+  inferenceResult as result,
+  jsonResponse,
+  mockBrowser,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+const statsReport = (stats: Record<string, unknown>[]) =>
+  new Map(stats.map((stat) => [stat.id, stat])) as unknown as RTCStatsReport;
+
+describe("metrics", () => {
+  it("should compute nearest-rank percentiles", () => {
+    const sorted = Array.from({ length: 20 }, (_, i) => i + 1);
+
+    expect(percentile(sorted, 50)).toBe(10);
+    expect(percentile(sorted, 95)).toBe(19);
+    expect(percentile([42], 99)).toBe(42);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it("should aggregate results over a rolling window", () => {
+    const collector = new MetricsCollector(10_000);
+    collector.reset(0);
+
+    collector.recordResult(result({ inference_latency_ms: 300 }), 1000);
+    for (let i = 1; i <= 4; i++) {
+      collector.recordResult(
+        result({ inference_latency_ms: i * 100, total_latency_ms: i * 200 }),
+        10_000 + i * 1000,
+      );
+    }
+    collector.recordResult(result({ ok: false, error: "timeout" }), 15_000);
+
+    const metrics = collector.snapshot(null, 15_000);
+    expect(metrics).toMatchObject({
+      windowMs: 10_000,
+      resultCount: 5,
+      failedCount: 1,
+      resultsPerSecond: 0.5,
+      failureRatio: 0.2,
+      inferenceLatencyMs: { p50: 200, p95: 400, mean: 250, max: 400 },
+      totalLatencyMs: { p50: 400, max: 800 },
+    });
+  });
+
+  it("should keep the most recent lease renewals", () => {
+    const collector = new MetricsCollector(60_000);
+    for (let i = 0; i < 25; i++) {
+      collector.recordLeaseRenewal({
+        timestamp: i,
+        ok: true,
+        ttlSeconds: 300,
+        durationMs: 20,
+      });
+    }
+
+    const { leaseRenewals } = collector.snapshot(null);
+    expect(leaseRenewals).toHaveLength(20);
+    expect(leaseRenewals[0]!.timestamp).toBe(5);
+  });
+
+  it("should read outbound video stats from a stats report", () => {
+    const report = (bytesSent: number, timestamp: number) =>
+      statsReport([
+        {
+          id: "out",
+          type: "outbound-rtp",
+          kind: "video",
+          timestamp,
+          bytesSent,
+          packetsSent: 900,
+          framesPerSecond: 15,
+          frameWidth: 1280,
+          frameHeight: 720,
+          remoteId: "remote",
+        },
+        {
+          id: "remote",
+          type: "remote-inbound-rtp",
+          kind: "video",
+          packetsLost: 3,
+          fractionLost: 0.01,
+          roundTripTime: 0.045,
+        },
+        { id: "t", type: "transport", selectedCandidatePairId: "pair" },
+        { id: "pair", type: "candidate-pair", localCandidateId: "local" },
+        { id: "local", type: "local-candidate", candidateType: "relay" },
+      ]);
+
+    const first = readOutboundVideoStats(report(100_000, 1000), null);
+    expect(first.stats).toEqual({
+      bitrate: null,
+      framesPerSecond: 15,
+      frameWidth: 1280,
+      frameHeight: 720,
+      packetsSent: 900,
+      packetsLost: 3,
+      fractionLost: 0.01,
+      roundTripTimeMs: 45,
+      candidateType: "relay",
+    });
+
+    const second = readOutboundVideoStats(report(225_000, 3000), first.sample);
+    expect(second.stats?.bitrate).toBe(500_000);
+  });
+
+  it("should keep interval and on-demand bitrate samples apart", () => {
+    const collector = new MetricsCollector(60_000);
+    const report = (bytesSent: number, timestamp: number) =>
+      statsReport([
+        {
+          id: "out",
+          type: "outbound-rtp",
+          kind: "video",
+          bytesSent,
+          timestamp,
+        },
+      ]);
+
+    collector.readVideoStats(report(0, 0), "interval");
+    collector.readVideoStats(report(100_000, 4000), "on-demand");
+    const next = collector.readVideoStats(report(500_000, 5000), "interval");
+
+    // 500 KB over the interval's 5 s, not 400 KB over the last second
+    expect(next?.bitrate).toBe(800_000);
+  });
+
+  it("should return null without outbound video", () => {
+    expect(readOutboundVideoStats(statsReport([]), null).stats).toBeNull();
+  });
+});
+
+describe("RealtimeVision - metrics", () => {
+  let mocks: BrowserMocks;
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should report results and video stats", async () => {
+    const vision = createVision();
+
+    await vision.start();
+    mocks.peerConnections[0]!.getStats.mockResolvedValue(
+      statsReport([
+        { id: "out", type: "outbound-rtp", kind: "video", framesPerSecond: 30 },
+      ]),
+    );
+    mocks.socket.receive(result());
+    mocks.socket.receive(result({ ok: false, error: "timeout" }));
+
+    const metrics = await vision.getMetrics();
+    expect(metrics.resultCount).toBe(2);
+    expect(metrics.failureRatio).toBe(0.5);
+    expect(metrics.inferenceLatencyMs.p50).toBe(100);
+    expect(metrics.video?.framesPerSecond).toBe(30);
+
+    await vision.stop();
+    expect((await vision.getMetrics()).video).toBeNull();
+  });
+
+  it("should emit metrics periodically and record lease renewals", async () => {
+    vi.useFakeTimers();
+    const onMetrics = vi.fn();
+    const vision = createVision({ onMetrics, metrics: { intervalMs: 1000 } });
+
+    await vision.start();
+    mocks.fetch.mockResolvedValue(
+      jsonResponse({ status: "ok", stream_id: STREAM_ID, ttl_seconds: 300 }),
+    );
+    await vi.advanceTimersByTimeAsync(150_000);
+
+    expect(onMetrics).toHaveBeenCalled();
+    const latest = onMetrics.mock.lastCall![0];
+    expect(latest.leaseRenewals).toEqual([
+      expect.objectContaining({ ok: true, ttlSeconds: 300 }),
+    ]);
+
+    await vision.stop();
+    onMetrics.mockClear();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onMetrics).not.toHaveBeenCalled();
+  });
+
+  it("should reject an invalid metrics interval", () => {
+    expect(() => createVision({ metrics: { intervalMs: 0 } })).toThrow(
+      "metrics.intervalMs must be positive",
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { ResultQueue } from "../results";
+import {
+  createVision as createBaseVision,
+  inferenceResult,
+  mockBrowser,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("ResultQueue", () => {
+  it("should deliver pushed values in order", async () => {
+    const queue = new ResultQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    const values: number[] = [];
+    for await (const value of queue) {
+      values.push(value);
+    }
+    expect(values).toEqual([1, 2]);
+  });
+
+  it("should resolve pending reads when a value is pushed", async () => {
+    const queue = new ResultQueue<number>();
+    const pending = queue.next();
+    queue.push(42);
+    await expect(pending).resolves.toEqual({ value: 42, done: false });
+  });
+
+  it("should drop the oldest value by default", async () => {
+    const queue = new ResultQueue<number>({ bufferSize: 2 });
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+
+    expect(queue.dropped).toBe(1);
+    expect((await queue.next()).value).toBe(2);
+  });
+
+  it("should drop the newest value with drop-newest", async () => {
+    const queue = new ResultQueue<number>({
+      bufferSize: 2,
+      overflow: "drop-newest",
+    });
+    queue.push(1);
+    queue.push(2);
+    queue.push(3);
+
+    expect(queue.dropped).toBe(1);
+    expect((await queue.next()).value).toBe(1);
+    expect((await queue.next()).value).toBe(2);
+  });
+
+  it("should keep every value with block", async () => {
+    const queue = new ResultQueue<number>({ bufferSize: 1, overflow: "block" });
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    const values: number[] = [];
+    for await (const value of queue) {
+      values.push(value);
+    }
+    expect(values).toEqual([1, 2]);
+    expect(queue.dropped).toBe(0);
+  });
+
+  it("should throw after draining when failed", async () => {
+    const queue = new ResultQueue<number>();
+    queue.push(1);
+    queue.fail(new Error("boom"));
+
+    expect((await queue.next()).value).toBe(1);
+    await expect(queue.next()).rejects.toThrow("boom");
+    expect((await queue.next()).done).toBe(true);
+  });
+
+  it("should end when the signal aborts", async () => {
+    const controller = new AbortController();
+    const queue = new ResultQueue<number>({ signal: controller.signal });
+    const pending = queue.next();
+    controller.abort();
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it("should expose a ReadableStream", async () => {
+    const queue = new ResultQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.end();
+
+    const reader = queue.toReadableStream().getReader();
+    expect((await reader.read()).value).toBe(1);
+    expect((await reader.read()).value).toBe(2);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
+
+describe("RealtimeVision.results", () => {
+  let mocks: BrowserMocks;
+
+  const createVision = () =>
+    createBaseVision({ source: { type: "camera", cameraFacing: "user" } });
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const sendResult = (result: string) =>
+    mocks.socket.receive(inferenceResult({ result }));
+
+  it("should feed several consumers and end on stop()", async () => {
+    const vision = createVision();
+    const first = vision.results();
+    const second = vision.results();
+
+    await vision.start();
+    sendResult("a");
+    sendResult("b");
+    await vision.stop();
+
+    const collect = async (iterator: AsyncIterable<{ result: string }>) => {
+      const values: string[] = [];
+      for await (const value of iterator) {
+        values.push(value.result);
+      }
+      return values;
+    };
+
+    expect(await collect(first)).toEqual(["a", "b"]);
+    expect(await collect(second)).toEqual(["a", "b"]);
+    expect(vision.listenerCount("result")).toBe(1);
+  });
+
+  it("should throw on a fatal error", async () => {
+    const vision = createVision();
+    const iterator = vision.results();
+
+    await vision.start();
+    sendResult("a");
+    mocks.socket.serverClose(1008);
+    await Promise.resolve();
+
+    expect((await iterator.next()).value.result).toBe("a");
+    await expect(iterator.next()).rejects.toThrow("authentication failed");
+  });
+
+  it("should stop listening when the consumer breaks out", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    const iterator = vision.results();
+    sendResult("a");
+    for await (const value of iterator) {
+      expect(value.result).toBe("a");
+      break;
+    }
+
+    expect(vision.listenerCount("result")).toBe(1);
+    await vision.stop();
+  });
+
+  it("should not leave listeners behind when the options are invalid", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const vision = createVision();
+    const resultListeners = vision.listenerCount("result");
+
+    expect(() => vision.results({ bufferSize: 0 })).toThrow(
+      "bufferSize must be a positive integer",
+    );
+    expect(vision.listenerCount("result")).toBe(resultListeners);
+    expect(vision.listenerCount("stateChange")).toBe(0);
+    expect(vision.listenerCount("error")).toBe(0);
+
+    await vision.start();
+    sendResult("a");
+    await vision.stop();
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("should expose results as a ReadableStream", async () => {
+    const vision = createVision();
+    const reader = vision.resultsStream().getReader();
+
+    await vision.start();
+    sendResult("a");
+    await vision.stop();
+
+    expect((await reader.read()).value?.result).toBe("a");
+    expect((await reader.read()).done).toBe(true);
+  });
+});
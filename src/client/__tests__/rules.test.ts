@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import { RuleEngine } from "../rules";
+import { TypedEventEmitter } from "../emitter";
+import type { RealtimeVisionEvents } from "../RealtimeVision";
+import { inferenceResult } from "./helpers";
+
+type Scene = {
+  person_count: number;
+  text: string;
+  objects: string[];
+};
+
+const scene = (overrides: Partial<Scene> = {}): Scene => ({
+  person_count: 0,
+  text: "",
+  objects: [],
+  ...overrides,
+});
+
+describe("RuleEngine", () => {
+  it("should evaluate comparisons, contains and regex", () => {
+    const engine = new RuleEngine<Scene>([
+      { name: "crowd", when: { path: "person_count", gt: 3 } },
+      { name: "exit", when: { path: "text", contains: "EXIT" } },
+      { name: "dog", when: { path: "objects", contains: "dog" } },
+      { name: "code", when: { path: "text", matches: /^[A-Z]{3}-\d+$/ } },
+      {
+        name: "mixed",
+        when: {
+          all: [
+            { path: "person_count", gte: 1, lte: 2 },
+            { not: { path: "text", eq: "" } },
+          ],
+        },
+      },
+    ]);
+    const listener = vi.fn();
+    engine.on("trigger", listener);
+
+    engine.push(scene({ person_count: 4, objects: ["dog", "cat"] }), 0);
+    engine.push(scene({ person_count: 1, text: "ABC-12" }), 1000);
+    engine.push(scene({ text: "EXIT here" }), 2000);
+
+    expect(listener.mock.calls.map(([event]) => event.rule)).toEqual([
+      "crowd",
+      "dog",
+      "code",
+      "mixed",
+      "exit",
+    ]);
+  });
+
+  it("should only fire after the condition is sustained", () => {
+    const engine = new RuleEngine<Scene>([
+      {
+        name: "crowd",
+        when: { path: "person_count", gt: 3 },
+        sustainFor: 5000,
+      },
+    ]);
+    const listener = vi.fn();
+    engine.onTrigger("crowd", listener);
+
+    engine.push(scene({ person_count: 5 }), 0);
+    engine.push(scene({ person_count: 5 }), 3000);
+    engine.push(scene({ person_count: 1 }), 4000);
+    engine.push(scene({ person_count: 5 }), 5000);
+    engine.push(scene({ person_count: 5 }), 9000);
+    expect(listener).not.toHaveBeenCalled();
+    expect(engine.getState("crowd")).toMatchObject({
+      matching: true,
+      active: false,
+      changedAt: 5000,
+    });
+
+    engine.push(scene({ person_count: 6 }), 10000);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ rule: "crowd", edge: "rising" }),
+    );
+    expect(engine.getState("crowd")).toMatchObject({
+      active: true,
+      activeSince: 10000,
+      triggerCount: 1,
+    });
+  });
+
+  it("should settle pending transitions when results stop", () => {
+    vi.useFakeTimers();
+    const engine = new RuleEngine<Scene>([
+      {
+        name: "crowd",
+        when: { path: "person_count", gt: 3 },
+        sustainFor: 5000,
+        releaseFor: 2000,
+        edge: "both",
+      },
+    ]);
+    const edges: string[] = [];
+    engine.on("trigger", ({ edge }) => edges.push(edge));
+
+    engine.push(scene({ person_count: 5 }), Date.now());
+    vi.advanceTimersByTime(4999);
+    expect(edges).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(edges).toEqual(["rising"]);
+
+    engine.push(scene({ person_count: 0 }), Date.now());
+    vi.advanceTimersByTime(2000);
+    expect(edges).toEqual(["rising", "falling"]);
+    expect(engine.getState("crowd")?.active).toBe(false);
+
+    engine.push(scene({ person_count: 5 }), Date.now());
+    engine.reset();
+    vi.advanceTimersByTime(5000);
+    expect(edges).toHaveLength(2);
+    vi.useRealTimers();
+  });
+
+  it("should log listener errors from pending transitions", () => {
+    vi.useFakeTimers();
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const engine = new RuleEngine<Scene>([
+      {
+        name: "crowd",
+        when: { path: "person_count", gt: 3 },
+        sustainFor: 5000,
+      },
+    ]);
+    const error = new Error("listener failed");
+    engine.on("trigger", () => {
+      throw error;
+    });
+
+    engine.push(scene({ person_count: 5 }), Date.now());
+    expect(() => vi.advanceTimersByTime(5000)).not.toThrow();
+
+    expect(consoleError).toHaveBeenCalledWith(
+      '[RuleEngine] Error evaluating rule "crowd":',
+      error,
+    );
+    expect(engine.getState("crowd")?.active).toBe(true);
+    consoleError.mockRestore();
+    vi.useRealTimers();
+  });
+
+  it("should fire falling edges and respect the cooldown", () => {
+    const engine = new RuleEngine<Scene>([
+      {
+        name: "person",
+        when: { path: "person_count", gte: 1 },
+        edge: "both",
+        cooldown: 10000,
+      },
+    ]);
+    const edges: string[] = [];
+    engine.on("trigger", ({ edge }) => edges.push(edge));
+
+    engine.push(scene({ person_count: 1 }), 0);
+    engine.push(scene({ person_count: 0 }), 5000);
+    engine.push(scene({ person_count: 1 }), 11000);
+    engine.push(scene({ person_count: 0 }), 12000);
+
+    expect(edges).toEqual(["rising", "rising"]);
+    expect(engine.getState("person")?.active).toBe(false);
+  });
+
+  it("should match the whole value when no path is given", () => {
+    const engine = new RuleEngine<string>([
+      { name: "hello", when: { matches: "hello", neq: "hello world" } },
+    ]);
+    const listener = vi.fn();
+    engine.on("trigger", listener);
+
+    engine.push("hello world", 0);
+    engine.push("well hello", 1000);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]![0].value).toBe("well hello");
+  });
+
+  it("should attach to a RealtimeVision result stream", () => {
+    class FakeVision extends TypedEventEmitter<RealtimeVisionEvents<Scene>> {
+      send(result: RealtimeVisionEvents<Scene>["result"]) {
+        this.emit("result", result);
+      }
+    }
+    const vision = new FakeVision();
+    const engine = new RuleEngine<Scene>([
+      { name: "crowd", when: (value) => value.person_count > 3 },
+    ]);
+    const listener = vi.fn();
+    engine.on("trigger", listener);
+
+    const detach = engine.attach(vision);
+    vision.send({
+      ...inferenceResult(),
+      ok: true,
+      parsed: scene({ person_count: 4 }),
+    });
+    vision.send({ ...inferenceResult({ ok: false }), ok: false, parsed: null });
+    detach();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(vision.listenerCount("result")).toBe(0);
+  });
+
+  it("should reject duplicate rule names", () => {
+    expect(
+      () =>
+        new RuleEngine<Scene>([
+          { name: "a", when: { path: "text", eq: "" } },
+          { name: "a", when: { path: "text", eq: "x" } },
+        ]),
+    ).toThrow("duplicate rule name: a");
+  });
+});
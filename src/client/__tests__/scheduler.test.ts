@@ -0,0 +1,332 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  vi,
+  afterEach,
+  type Mock,
+} from "vitest";
+import { PromptScheduler, renderPromptTemplate } from "../scheduler";
+import { ConfigError } from "../errors";
+import {
+  createVision,
+  inferenceResult,
+  jsonResponse,
+  mockBrowser,
+  streamCreated,
+  STREAM_ID,
+  type BrowserMocks,
+} from "./helpers";
+
+describe("renderPromptTemplate", () => {
+  it("should fill variables and dotted paths", () => {
+    expect(
+      renderPromptTemplate("Is aisle {{ aisle }} at {{store.name}} stocked?", {
+        aisle: 7,
+        store: { name: "Main St" },
+      }),
+    ).toBe("Is aisle 7 at Main St stocked?");
+  });
+
+  it("should throw on a missing variable", () => {
+    expect(() => renderPromptTemplate("Find {{item}}", {})).toThrow(
+      "Missing prompt variable: item",
+    );
+  });
+});
+
+describe("PromptScheduler", () => {
+  let target: { updatePrompt: Mock<[string], Promise<void>> };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    target = { updatePrompt: vi.fn().mockResolvedValue(undefined) };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const sent = () => target.updatePrompt.mock.calls.map(([prompt]) => prompt);
+
+  it("should cycle through entries in order", async () => {
+    const scheduler = new PromptScheduler(target, {
+      entries: [
+        { prompt: "a" },
+        { prompt: "b", durationMs: 2000 },
+        { prompt: "c" },
+      ],
+      intervalMs: 1000,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual(["a"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent()).toEqual(["a", "b"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent()).toEqual(["a", "b"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent()).toEqual(["a", "b", "c", "a"]);
+
+    scheduler.stop();
+  });
+
+  it("should give weighted entries proportional turns", async () => {
+    const scheduler = new PromptScheduler(target, {
+      entries: [
+        { prompt: "a", weight: 3 },
+        { prompt: "b", weight: 1 },
+      ],
+      mode: "weighted",
+      intervalMs: 1000,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(7000);
+    scheduler.stop();
+
+    expect(sent()).toEqual(["a", "a", "b", "a", "a", "a", "b", "a"]);
+  });
+
+  it("should debounce rapid changes into one update", async () => {
+    const scheduler = new PromptScheduler(target, {
+      entries: [{ prompt: "a" }, { name: "b", prompt: "b" }, { prompt: "c" }],
+      intervalMs: 10_000,
+      debounceMs: 100,
+    });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    scheduler.next();
+    scheduler.next();
+    scheduler.goTo("b");
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(sent()).toEqual(["a", "b"]);
+    expect(scheduler.getActiveEntry()).toBe("b");
+    expect(() => scheduler.goTo("missing")).toThrow(ConfigError);
+
+    scheduler.stop();
+  });
+
+  it("should send updates one at a time", async () => {
+    let finish!: () => void;
+    target.updatePrompt.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    const scheduler = new PromptScheduler(target, {
+      entries: [{ prompt: "a" }, { prompt: "b" }],
+      debounceMs: 0,
+    });
+
+    scheduler.start();
+    scheduler.next();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual(["a"]);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual(["a", "b"]);
+
+    scheduler.stop();
+  });
+
+  it("should render templates with the current variables at each switch", async () => {
+    let aisle = 1;
+    const scheduler = new PromptScheduler(target, {
+      entries: [{ name: "stock", prompt: "Is aisle {{aisle}} stocked?" }],
+      variables: () => ({ aisle }),
+      debounceMs: 0,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    aisle = 2;
+    scheduler.refresh();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent()).toEqual(["Is aisle 1 stocked?", "Is aisle 2 stocked?"]);
+    expect(scheduler.getEntryForPrompt("Is aisle 1 stocked?")).toBe("stock");
+
+    scheduler.stop();
+  });
+
+  it("should emit an error and retry the entry later", async () => {
+    const onError = vi.fn();
+    const state: Record<string, unknown> = {};
+    const scheduler = new PromptScheduler(target, {
+      entries: [{ name: "find", prompt: "Find {{item}}" }, { prompt: "b" }],
+      intervalMs: 1000,
+      variables: () => state,
+    });
+    scheduler.on("error", onError);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ entry: "find" }),
+    );
+    expect(sent()).toEqual([]);
+
+    state.item = "keys";
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent()).toEqual(["Find keys"]);
+
+    scheduler.stop();
+  });
+
+  it("should validate options", () => {
+    expect(() => new PromptScheduler(target, { entries: [] })).toThrow(
+      "schedule entries must be a non-empty array",
+    );
+    expect(
+      () =>
+        new PromptScheduler(target, {
+          entries: [{ prompt: "a", weight: 0 }],
+        }),
+    ).toThrow('weight of schedule entry "a" must be positive');
+    expect(
+      () =>
+        new PromptScheduler(target, {
+          entries: [{ prompt: "a" }, { prompt: "a" }],
+        }),
+    ).toThrow("duplicate schedule entry: a");
+  });
+});
+
+describe("RealtimeVision - prompt schedule", () => {
+  let mocks: BrowserMocks;
+
+  const streamConfig = (prompt: string) => ({
+    id: "config-id",
+    stream_id: STREAM_ID,
+    prompt,
+    backend: "overshoot",
+    model: "test-model",
+  });
+  const sentPrompt = (init: RequestInit): string =>
+    JSON.parse(String(init.body)).prompt;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks = mockBrowser();
+    mocks.respond((url, init) =>
+      jsonResponse(
+        url.endsWith("/prompt")
+          ? streamConfig(sentPrompt(init))
+          : streamCreated(),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("should rotate prompts and tag results with the active entry", async () => {
+    const onResult = vi.fn();
+    const vision = createVision({
+      prompt: "unused",
+      onResult,
+      promptSchedule: {
+        entries: [
+          { name: "people", prompt: "Count the people in {{room}}" },
+          { name: "text", prompt: "Read any visible text" },
+        ],
+        intervalMs: 1000,
+        variables: { room: "lobby" },
+      },
+    });
+
+    await vision.start();
+    expect(mocks.requests()[0]!.body.inference.prompt).toBe(
+      "Count the people in lobby",
+    );
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mocks.requests("/prompt")).toHaveLength(1);
+    expect(vision.getPromptScheduler()?.getActiveEntry()).toBe("text");
+
+    // A late result of the previous prompt keeps its own tag
+    mocks.socket.receive(
+      inferenceResult({ result: "4", prompt: "Count the people in lobby" }),
+    );
+    mocks.socket.receive(
+      inferenceResult({ result: "EXIT", prompt: "Read any visible text" }),
+    );
+    expect(onResult.mock.calls.map(([r]) => r.scheduleEntry)).toEqual([
+      "people",
+      "text",
+    ]);
+
+    await vision.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mocks.requests("/prompt")).toHaveLength(1);
+  });
+
+  it("should keep the base prompt while the schedule runs", async () => {
+    const vision = createVision({
+      prompt: "base prompt",
+      promptSchedule: {
+        entries: [{ prompt: "first" }, { prompt: "second" }],
+        intervalMs: 1000,
+      },
+    });
+
+    await vision.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(vision.getPromptScheduler()?.getActiveEntry()).toBe("second");
+    expect(vision["config"].prompt).toBe("base prompt");
+
+    await vision.updatePrompt("new base");
+    expect(vision["config"].prompt).toBe("new base");
+    await vision.stop();
+
+    // A restart begins the schedule again
+    await vision.start();
+    const creates = mocks.requests("/streams");
+    expect(creates[1]!.body.inference.prompt).toBe("first");
+    await vision.stop();
+  });
+
+  it("should serialize concurrent updatePrompt() calls", async () => {
+    const vision = createVision();
+    await vision.start();
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const sentPrompts: string[] = [];
+    mocks.respond(async (url, init) => {
+      if (!url.endsWith("/prompt")) {
+        return jsonResponse({});
+      }
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      const prompt = sentPrompt(init);
+      sentPrompts.push(prompt);
+      return jsonResponse(streamConfig(prompt));
+    });
+
+    const updates = Promise.all([
+      vision.updatePrompt("first"),
+      vision.updatePrompt("second"),
+      vision.updatePrompt("third"),
+    ]);
+    await vi.advanceTimersByTimeAsync(100);
+    await updates;
+
+    expect(maxInFlight).toBe(1);
+    expect(sentPrompts).toEqual(["first", "second", "third"]);
+
+    await vision.stop();
+  });
+});
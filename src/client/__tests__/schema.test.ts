@@ -0,0 +1,197 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  vi,
+  afterEach,
+  expectTypeOf,
+} from "vitest";
+import { compileSchema, parseJsonResult, validateSchema } from "../schema";
+import { RealtimeVision } from "../RealtimeVision";
+import { ConfigError, ResultValidationError } from "../errors";
+import { inferenceResult, mockBrowser, type BrowserMocks } from "./helpers";
+
+const detectionSchema = {
+  type: "object",
+  properties: {
+    objects: { type: "array", items: { type: "string" } },
+    count: { type: "integer", minimum: 0 },
+    mood: { enum: ["calm", "busy"] },
+  },
+  required: ["objects", "count"],
+  additionalProperties: false,
+} as const;
+
+describe("parseJsonResult", () => {
+  it("should parse plain JSON", () => {
+    expect(parseJsonResult('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("should strip a markdown code fence", () => {
+    expect(parseJsonResult('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonResult("Here you go:\n```\n[1, 2]\n```")).toEqual([1, 2]);
+  });
+
+  it("should throw on invalid JSON", () => {
+    expect(() => parseJsonResult("not json")).toThrow();
+  });
+});
+
+describe("validateSchema", () => {
+  it("should accept a valid value", () => {
+    expect(
+      validateSchema(detectionSchema, { objects: ["cat"], count: 1 }),
+    ).toEqual([]);
+  });
+
+  it("should report every violation with its path", () => {
+    expect(
+      validateSchema(detectionSchema, {
+        objects: ["cat", 2],
+        count: 1.5,
+        mood: "sad",
+        extra: true,
+      }),
+    ).toEqual([
+      "$.objects[1]: expected string, got number",
+      "$.count: expected integer, got number",
+      '$.mood: expected one of "calm", "busy"',
+      "$.extra: unexpected property",
+    ]);
+  });
+
+  it("should report missing required properties", () => {
+    expect(validateSchema(detectionSchema, { objects: [] })).toEqual([
+      '$: missing required property "count"',
+    ]);
+  });
+
+  it("should support anyOf and nullable types", () => {
+    const schema = {
+      anyOf: [{ type: "string" }, { type: "integer", maximum: 3 }],
+    };
+    expect(validateSchema(schema, "a")).toEqual([]);
+    expect(validateSchema(schema, 5)).toHaveLength(1);
+    expect(validateSchema({ type: ["string", "null"] }, null)).toEqual([]);
+  });
+
+  it("should compare const and enum values regardless of key order", () => {
+    const schema = { const: { a: 1, b: 2 } };
+    expect(validateSchema(schema, { b: 2, a: 1 })).toEqual([]);
+    expect(validateSchema({ enum: [{ x: 1, y: 2 }] }, { y: 2, x: 1 })).toEqual(
+      [],
+    );
+  });
+
+  it("should reject invalid patterns as config errors", () => {
+    const schema = {
+      type: "object",
+      properties: { code: { type: "string", pattern: "[a-" } },
+    };
+    expect(() => compileSchema(schema)).toThrow(ConfigError);
+    expect(() => compileSchema(schema)).toThrow(
+      /^outputSchema\.properties\.code\.pattern is not a valid regular expression/,
+    );
+    expect(validateSchema(schema, { code: "a" })).toEqual([
+      "$.code: invalid pattern [a-",
+    ]);
+    expect(
+      () =>
+        new RealtimeVision({
+          apiUrl: "https://api.test.com",
+          apiKey: "test-key",
+          prompt: "test prompt",
+          outputSchema: schema,
+          onResult: () => {},
+        }),
+    ).toThrow(ConfigError);
+  });
+});
+
+describe("RealtimeVision - structured results", () => {
+  let mocks: BrowserMocks;
+
+  beforeEach(() => {
+    mocks = mockBrowser();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const sendResult = (result: string, ok = true) =>
+    mocks.socket.receive(
+      inferenceResult({ result, ok, error: ok ? null : "failed" }),
+    );
+
+  it("should infer the parsed type from a const schema", () => {
+    const vision = new RealtimeVision({
+      apiUrl: "https://api.test.com",
+      apiKey: "test-key",
+      prompt: "Detect objects",
+      outputSchema: detectionSchema,
+      onResult: (result) => {
+        if (result.ok) {
+          expectTypeOf(result.parsed).toEqualTypeOf<{
+            objects: string[];
+            count: number;
+            mood?: "calm" | "busy";
+          }>();
+        }
+      },
+    });
+    expect(vision).toBeInstanceOf(RealtimeVision);
+
+    const untyped = new RealtimeVision({
+      apiUrl: "https://api.test.com",
+      apiKey: "test-key",
+      prompt: "Describe",
+      onResult: (result) => {
+        if (result.ok) {
+          expectTypeOf(result.parsed).toEqualTypeOf<string>();
+        }
+      },
+    });
+    expect(untyped).toBeInstanceOf(RealtimeVision);
+  });
+
+  it("should parse and validate results against the schema", async () => {
+    const onResult = vi.fn();
+    const onError = vi.fn();
+    const vision = new RealtimeVision<{ objects: string[]; count: number }>({
+      apiUrl: "https://api.test.com",
+      apiKey: "test-key",
+      prompt: "Detect objects",
+      outputSchema: detectionSchema,
+      onResult,
+      onError,
+    });
+
+    await vision.start();
+    sendResult('```json\n{"objects": ["cat"], "count": 1}\n```');
+    sendResult('{"objects": ["cat"]}');
+    sendResult("no objects here");
+    sendResult("", false);
+
+    expect(onResult).toHaveBeenCalledTimes(2);
+    expect(onResult.mock.calls[0]![0].parsed).toEqual({
+      objects: ["cat"],
+      count: 1,
+    });
+    expect(onResult.mock.calls[1]![0]).toMatchObject({
+      ok: false,
+      parsed: null,
+    });
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    const [invalid] = onError.mock.calls[0]!;
+    expect(invalid).toBeInstanceOf(ResultValidationError);
+    expect(invalid.raw).toBe('{"objects": ["cat"]}');
+    expect(invalid.issues).toEqual(['$: missing required property "count"']);
+    expect(onError.mock.calls[1]![0].message).toBe("Result is not valid JSON");
+
+    expect(vision.getState()).toBe("running");
+    await vision.stop();
+  });
+});
@@ -0,0 +1,114 @@
+import { ConfigError } from "./errors";
+
+/**
+ * A short-lived token issued for the API key, e.g. by
+ * StreamClient.createToken() on your backend
+ */
+export type AccessToken = {
+  token: string;
+  /**
+   * Expiry as a Unix timestamp in milliseconds
+   */
+  expiresAt: number;
+};
+
+export type TokenProvider = () => Promise<AccessToken>;
+
+export type AuthOptions = {
+  getToken: TokenProvider;
+  /**
+   * Fetch a new token this long before the current one expires
+   * @default 30000
+   */
+  refreshBeforeMs?: number;
+};
+
+const DEFAULT_REFRESH_BEFORE_MS = 30000;
+
+/**
+ * Caches tokens from a provider until they expire. A token within
+ * refreshBeforeMs of its expiry is still returned while a new one is
+ * fetched in the background. Refreshing only happens when a token is
+ * requested, so the first request after an idle period longer than the
+ * token's lifetime waits on the provider.
+ */
+export class TokenManager {
+  private provider: TokenProvider;
+  private refreshBeforeMs: number;
+  private current: AccessToken | null = null;
+  private pending: Promise<AccessToken> | null = null;
+
+  constructor(auth: TokenProvider | AuthOptions) {
+    const options = typeof auth === "function" ? { getToken: auth } : auth;
+    if (typeof options?.getToken !== "function") {
+      throw new ConfigError("auth must be a function or { getToken }");
+    }
+    if (
+      options.refreshBeforeMs !== undefined &&
+      !(options.refreshBeforeMs >= 0)
+    ) {
+      throw new ConfigError("refreshBeforeMs must be non-negative");
+    }
+    this.provider = options.getToken;
+    this.refreshBeforeMs = options.refreshBeforeMs ?? DEFAULT_REFRESH_BEFORE_MS;
+  }
+
+  /**
+   * A valid token, fetching one if none is cached
+   */
+  async getToken(): Promise<string> {
+    const current = this.current;
+    const now = Date.now();
+    if (current && now < current.expiresAt) {
+      if (now >= current.expiresAt - this.refreshBeforeMs) {
+        this.refresh().catch(() => {
+          // Retried on the next call, the current token is still valid
+        });
+      }
+      return current.token;
+    }
+    return (await this.refresh()).token;
+  }
+
+  /**
+   * The cached token if it has not expired, without fetching
+   */
+  peek(): string | null {
+    if (this.current && Date.now() < this.current.expiresAt) {
+      return this.current.token;
+    }
+    return null;
+  }
+
+  /**
+   * Drop the cached token, e.g. after the server rejected it
+   */
+  invalidate(): void {
+    this.current = null;
+  }
+
+  /**
+   * Fetch a new token. Concurrent calls share one provider call.
+   */
+  private refresh(): Promise<AccessToken> {
+    if (!this.pending) {
+      this.pending = this.provider()
+        .then((token) => {
+          if (!token?.token || typeof token.token !== "string") {
+            throw new ConfigError("auth token must be a non-empty string");
+          }
+          if (!Number.isFinite(token.expiresAt)) {
+            throw new ConfigError(
+              "auth token expiresAt must be a timestamp in milliseconds",
+            );
+          }
+          this.current = token;
+          return token;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+}
@@ -0,0 +1,115 @@
+import { ConfigError } from "./errors";
+import { isDeepEqual } from "./schema";
+
+/**
+ * Custom equality for parsed results
+ */
+export type ChangeComparator<T> = (prev: T, next: T) => boolean;
+
+export type ChangeDetectionOptions<T = unknown> = {
+  /**
+   * How consecutive results are compared:
+   * - "exact": the parsed values are deeply equal
+   * - key paths: the parsed values agree on these dotted paths only,
+   *   e.g. ["count", "objects.0.label"]
+   * - a function returning true when two values are the same
+   * @default "exact"
+   */
+  compare?: "exact" | readonly string[] | ChangeComparator<T>;
+  /**
+   * Consecutive agreeing results required before a change is emitted.
+   * Values that flip back and forth within the window are ignored.
+   * @default 1
+   */
+  stabilityWindow?: number;
+};
+
+/**
+ * A stable change between two results. prev is null for the first one.
+ */
+export type ChangeEvent<R> = {
+  prev: R | null;
+  next: R;
+};
+
+/**
+ * Read a dotted key path such as "objects.0.label"
+ */
+export function getPath(value: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+/**
+ * Turns a stream of results into a stream of stable changes
+ */
+export class ChangeDetector<R extends { parsed: unknown }> {
+  private equals: ChangeComparator<R["parsed"]>;
+  private stabilityWindow: number;
+  private current: R | null = null;
+  private candidate: R | null = null;
+  private agreeing = 0;
+
+  constructor(options: ChangeDetectionOptions<R["parsed"]> = {}) {
+    const stabilityWindow = options.stabilityWindow ?? 1;
+    if (!Number.isInteger(stabilityWindow) || stabilityWindow < 1) {
+      throw new ConfigError("stabilityWindow must be a positive integer");
+    }
+    this.stabilityWindow = stabilityWindow;
+
+    const compare = options.compare ?? "exact";
+    if (typeof compare === "function") {
+      this.equals = compare;
+    } else if (compare === "exact") {
+      this.equals = isDeepEqual;
+    } else {
+      const paths = compare;
+      this.equals = (prev, next) =>
+        paths.every((path) =>
+          isDeepEqual(getPath(prev, path), getPath(next, path)),
+        );
+    }
+  }
+
+  /**
+   * Feed a result; returns the change once it has been stable for the
+   * stability window, otherwise null
+   */
+  push(result: R): ChangeEvent<R> | null {
+    if (this.current && this.equals(this.current.parsed, result.parsed)) {
+      this.candidate = null;
+      this.agreeing = 0;
+      return null;
+    }
+
+    if (this.candidate && this.equals(this.candidate.parsed, result.parsed)) {
+      this.agreeing++;
+    } else {
+      this.agreeing = 1;
+    }
+    this.candidate = result;
+
+    if (this.agreeing < this.stabilityWindow) {
+      return null;
+    }
+
+    const change = { prev: this.current, next: result };
+    this.current = result;
+    this.candidate = null;
+    this.agreeing = 0;
+    return change;
+  }
+
+  /**
+   * Forget the current value, so the next stable result is a change
+   */
+  reset(): void {
+    this.current = null;
+    this.candidate = null;
+    this.agreeing = 0;
+  }
+}
@@ -1,178 +1,900 @@
 import type {
   StreamCreateRequest,
   StreamCreateResponse,
+  StreamRenegotiateRequest,
+  StreamRenegotiateResponse,
   KeepaliveResponse,
   StreamConfigResponse,
+  StreamInferenceUpdateRequest,
+  StreamProcessingUpdateRequest,
+  StreamStatus,
+  StreamInfo,
+  StreamListResponse,
+  StreamCloseResponse,
   FeedbackCreateRequest,
   FeedbackResponse,
   StatusResponse,
   ErrorResponse,
+  TokenCreateRequest,
+  TokenResponse,
 } from "./types";
+import { TokenManager, type AuthOptions, type TokenProvider } from "./auth";
+import { LeveledLogger, type Logger, type LogLevel } from "./logger";
+import {
+  decode,
+  errorResponse,
+  feedbackResponses,
+  keepaliveResponse,
+  statusResponse,
+  streamCloseResponse,
+  streamConfigResponse,
+  streamCreateResponse,
+  streamInfo,
+  streamListResponse,
+  streamRenegotiateResponse,
+  tokenResponse,
+  type Decoder,
+} from "./decoders";
 import {
   ApiError,
+  ConfigError,
   ValidationError,
   NotFoundError,
   NetworkError,
   ServerError,
   UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  RateLimitError,
+  TimeoutError,
+  WebSocketError,
 } from "./errors";
 
+export type RetryOptions = {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default 2
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry, doubled on each following retry
+   * @default 250
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the backoff delay. A Retry-After longer than this
+   * fails the request instead of waiting.
+   * @default 5000
+   */
+  maxDelayMs?: number;
+  /**
+   * HTTP status codes that are retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+  /**
+   * Wait for the duration given by a Retry-After response header
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+};
+
+export type RequestOptions = {
+  /**
+   * Per-attempt timeout in milliseconds (0 disables)
+   */
+  timeoutMs?: number;
+  /**
+   * Retry policy for this call, merged over the client's policy.
+   * Pass false to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Aborts the request, including any pending retry
+   */
+  signal?: AbortSignal;
+};
+
+export type CreateStreamOptions = RequestOptions & {
+  /**
+   * Idempotency key sent with the request so that a retried POST does not
+   * create a second stream. Generated when not provided.
+   */
+  idempotencyKey?: string;
+};
+
+export type ListStreamsOptions = RequestOptions & {
+  /**
+   * Only return streams with this status
+   */
+  status?: StreamStatus;
+  /**
+   * Page size
+   */
+  limit?: number;
+  /**
+   * next_cursor of the previous page
+   */
+  cursor?: string;
+};
+
+/**
+ * What a WebSocket constructor's instances must provide. Kept minimal so
+ * that the ws package's WebSocket type is accepted as well as the browser's.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * A WebSocket constructor, e.g. from the ws package on Node.js < 22
+ */
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+) => WebSocketLike;
+
+/**
+ * A request about to be sent. Middleware may change the url, headers and
+ * body; the changes apply to this attempt only.
+ */
+export type RequestContext = {
+  method: string;
+  /**
+   * Path relative to the base URL, e.g. "/streams"
+   */
+  path: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  /**
+   * 0 for the first attempt, incremented on every retry
+   */
+  attempt: number;
+};
+
+/**
+ * Hooks around every request, e.g. to add tracing headers or record
+ * metrics. Hooks run in registration order and may be async.
+ */
+export type Middleware = {
+  /**
+   * Called before each attempt
+   */
+  onRequest?: (context: RequestContext) => void | Promise<void>;
+  /**
+   * Called with the response of each attempt, including error statuses.
+   * Returning a Response replaces it.
+   */
+  onResponse?: (
+    context: RequestContext,
+    response: Response,
+  ) => void | Response | Promise<void | Response>;
+  /**
+   * Called once when the request fails after all retries
+   */
+  onError?: (context: RequestContext, error: unknown) => void | Promise<void>;
+};
+
 type ClientConfig = {
   baseUrl: string;
-  apiKey: string;
+  /**
+   * Long-lived API key. Keep it on your servers; browsers should use auth.
+   */
+  apiKey?: string;
+  /**
+   * Short-lived tokens used instead of apiKey, cached until they expire.
+   * A request rejected with 401 is retried once with a new token.
+   */
+  auth?: TokenProvider | AuthOptions;
+  /**
+   * fetch implementation
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  /**
+   * credentials mode of every request. Not sent when omitted, for runtimes
+   * that reject the option.
+   */
+  credentials?: RequestCredentials;
+  /**
+   * WebSocket constructor used by connectWebSocket()
+   * @default globalThis.WebSocket
+   */
+  WebSocket?: WebSocketConstructor;
+  /**
+   * Default per-attempt timeout in milliseconds (0 disables)
+   * @default 30000
+   */
+  timeoutMs?: number;
+  /**
+   * Default retry policy. Pass false to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Hooks around every request, see use()
+   */
+  middleware?: Middleware[];
+  /**
+   * Destination for request logs. API keys and tokens are redacted.
+   * @default console
+   */
+  logger?: Logger;
+  /**
+   * Lowest level that is logged. Requests are logged at "debug".
+   * @default "info"
+   */
+  logLevel?: LogLevel;
 };
 
+type InternalRequestOptions = RequestOptions & {
+  /**
+   * Whether the request may be safely retried. Defaults to true for
+   * GET/HEAD/PUT/PATCH/DELETE and for requests with an Idempotency-Key.
+   */
+  idempotent?: boolean;
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 2,
+  initialDelayMs: 250,
+  maxDelayMs: 5000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Wait for the given delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new NetworkError("Request aborted"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new NetworkError("Request aborted"));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
 export class StreamClient {
   private baseUrl: string;
-  private apiKey: string;
+  private apiKey: string | null;
+  private tokens: TokenManager | null;
+  private timeoutMs: number;
+  private retry: RetryOptions | false;
+  private fetchImpl: typeof fetch | undefined;
+  private credentials: RequestCredentials | undefined;
+  private WebSocketImpl: WebSocketConstructor | undefined;
+  private middleware: Middleware[];
+  private logger: Logger;
 
   constructor(config: ClientConfig) {
-    if (!config.apiKey || typeof config.apiKey !== "string") {
-      throw new Error("apiKey is required and must be a string");
+    if (config.auth === undefined) {
+      if (!config.apiKey || typeof config.apiKey !== "string") {
+        throw new ConfigError("apiKey or auth is required");
+      }
     }
 
     this.baseUrl = config.baseUrl;
-    this.apiKey = config.apiKey;
+    this.apiKey = config.auth === undefined ? config.apiKey! : null;
+    this.tokens =
+      config.auth === undefined ? null : new TokenManager(config.auth);
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retry = config.retry ?? {};
+    this.fetchImpl = config.fetch;
+    this.credentials = config.credentials;
+    this.WebSocketImpl = config.WebSocket;
+    this.middleware = [...(config.middleware ?? [])];
+    this.logger = new LeveledLogger({
+      logger: config.logger,
+      level: config.logLevel,
+      prefix: "[StreamClient]",
+      secrets: () => [this.peekCredential()],
+    });
+  }
+
+  /**
+   * Add middleware after the configured ones
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * The API key, or a valid token from auth
+   */
+  async getCredential(): Promise<string> {
+    return this.apiKey ?? this.tokens!.getToken();
+  }
+
+  /**
+   * The API key or a cached, unexpired token, without waiting for the
+   * token provider
+   */
+  peekCredential(): string | null {
+    return this.apiKey ?? this.tokens!.peek();
+  }
+
+  /**
+   * Drop the cached token so the next call fetches a new one. No-op with
+   * an API key.
+   */
+  invalidateCredential(): void {
+    this.tokens?.invalidate();
+  }
+
+  /**
+   * Send a request with the configured fetch. The global fetch is looked up
+   * per call so that it can be polyfilled or replaced after construction.
+   */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+    if (typeof fetchImpl !== "function") {
+      throw new NetworkError(
+        "fetch is not available in this runtime, pass fetch in the client config",
+      );
+    }
+    return fetchImpl(url, {
+      ...init,
+      ...(this.credentials && { credentials: this.credentials }),
+    });
+  }
+
+  /**
+   * Merge the per-call retry policy over the client's policy
+   */
+  private resolveRetry(
+    retry: RetryOptions | false | undefined,
+  ): Required<RetryOptions> {
+    if (retry === false || this.retry === false) {
+      return { ...DEFAULT_RETRY, maxRetries: 0 };
+    }
+    return { ...DEFAULT_RETRY, ...this.retry, ...retry };
   }
 
   private async request<T>(
     path: string,
-    options: RequestInit = {},
+    decoder: Decoder<T>,
+    init: RequestInit = {},
+    options: InternalRequestOptions = {},
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
-    const controller = new AbortController();
+    const retry = this.resolveRetry(options.retry);
+    const method = (init.method || "GET").toUpperCase();
+    const idempotent =
+      options.idempotent ??
+      (IDEMPOTENT_METHODS.includes(method) ||
+        new Headers(init.headers).has("Idempotency-Key"));
 
-    // Log outgoing cookies
-    console.log("[Cookie Debug] Outgoing request:", {
-      url,
-      method: options.method || "GET",
-      cookies: document.cookie,
-      hasCookie: document.cookie.includes("media-gateway-route"),
-    });
+    let authRetried = false;
+    let context: RequestContext | null = null;
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-        credentials: "include",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
-          ...options.headers,
-        },
-      });
-
-      // Log incoming cookies from response
-      const setCookie = response.headers.get("set-cookie");
-      console.log("[Cookie Debug] Response received:", {
-        url,
-        status: response.status,
-        setCookieHeader: setCookie,
-        allCookiesNow: document.cookie,
-      });
-
-      if (!response.ok) {
-        const errorData: ErrorResponse = await response.json().catch(() => ({
-          error: "unknown_error",
-          message: response.statusText,
-        }));
+      for (let attempt = 0; ; attempt++) {
+        const canRetry = idempotent && attempt < retry.maxRetries;
+        const backoff = Math.min(
+          retry.maxDelayMs,
+          retry.initialDelayMs * Math.pow(2, attempt),
+        );
+        const jitteredBackoff = Math.round(
+          backoff / 2 + Math.random() * (backoff / 2),
+        );
 
-        const message = errorData.message || errorData.error;
+        const credential = this.apiKey ?? (await this.tokens!.getToken());
+        context = {
+          method,
+          path,
+          url,
+          headers: {
+            Authorization: `Bearer ${credential}`,
+            ...(init.headers as Record<string, string> | undefined),
+          },
+          ...(init.body !== undefined && { body: init.body }),
+          attempt,
+        };
+        for (const middleware of this.middleware) {
+          await middleware.onRequest?.(context);
+        }
 
-        if (response.status === 401) {
-          throw new UnauthorizedError(
-            message || "Invalid or revoked API key",
-            errorData.request_id,
+        this.logger.debug(`${method} ${path}`, { attempt });
+        let response: Response;
+        try {
+          response = await this.fetchOnce(
+            context.url,
+            { ...init, headers: context.headers, body: context.body },
+            options,
           );
+        } catch (error) {
+          if (!canRetry || options.signal?.aborted) {
+            throw error;
+          }
+          this.logger.debug(`${method} ${path} failed, retrying:`, error);
+          await sleep(jitteredBackoff, options.signal);
+          continue;
         }
-        if (response.status === 422 || response.status === 400) {
-          throw new ValidationError(
-            message,
-            errorData.request_id,
-            errorData.details,
-          );
+
+        for (const middleware of this.middleware) {
+          response =
+            (await middleware.onResponse?.(context, response)) ?? response;
         }
-        if (response.status === 404) {
-          throw new NotFoundError(message, errorData.request_id);
+        this.logger.debug(`${method} ${path} ->`, response.status);
+
+        // An expired or revoked token is replaced once
+        if (response.status === 401 && this.tokens && !authRetried) {
+          authRetried = true;
+          this.tokens.invalidate();
+          continue;
         }
-        if (response.status >= 500) {
-          throw new ServerError(
-            message,
-            errorData.request_id,
-            errorData.details,
-          );
+
+        if (
+          !response.ok &&
+          canRetry &&
+          retry.retryableStatusCodes.includes(response.status)
+        ) {
+          const retryAfter = retry.respectRetryAfter
+            ? parseRetryAfter(response.headers.get("retry-after"))
+            : null;
+
+          if (retryAfter === null || retryAfter <= retry.maxDelayMs) {
+            await sleep(retryAfter ?? jitteredBackoff, options.signal);
+            continue;
+          }
         }
 
-        throw new ApiError(
-          message,
-          response.status,
-          errorData.request_id,
-          errorData.details,
+        return await this.handleResponse(
+          response,
+          decoder,
+          `${method} ${path}`,
         );
       }
-
-      return await response.json();
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (context) {
+        for (const middleware of this.middleware) {
+          try {
+            await middleware.onError?.(context, error);
+          } catch (middlewareError) {
+            // The request error is the one the caller needs to see
+            this.logger.warn("Middleware onError failed:", middlewareError);
+          }
+        }
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Perform a single fetch with timeout and external abort support
+   */
+  private async fetchOnce(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    let timedOut = false;
+
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) {
+      throw new NetworkError("Request aborted");
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timeout =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
 
+    try {
+      return await this.fetch(url, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...init.headers,
+        },
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(
+          `Request timed out after ${timeoutMs}ms`,
+          timeoutMs,
+        );
+      }
+      if (options.signal?.aborted) {
+        throw new NetworkError(
+          "Request aborted",
+          error instanceof Error ? error : undefined,
+        );
+      }
       if (error instanceof Error) {
         throw new NetworkError(`Network error: ${error.message}`, error);
       }
 
       throw new NetworkError("Unknown network error");
+    } finally {
+      if (timeout !== null) {
+        clearTimeout(timeout);
+      }
+      options.signal?.removeEventListener("abort", onAbort);
     }
   }
+
+  /**
+   * Map a response to its decoded JSON body or to a typed error
+   */
+  private async handleResponse<T>(
+    response: Response,
+    decoder: Decoder<T>,
+    description: string,
+  ): Promise<T> {
+    if (!response.ok) {
+      const fallback: ErrorResponse = {
+        error: "unknown_error",
+        message: response.statusText,
+      };
+      // Proxies and gateways answer errors with bodies of their own
+      const body = await response.json().catch(() => null);
+      const errorData = errorResponse(body, "", []) ? body : fallback;
+
+      const message = errorData.message || errorData.error;
+
+      if (response.status === 401) {
+        throw new UnauthorizedError(
+          message || "Invalid or revoked API key",
+          errorData.request_id,
+        );
+      }
+      if (response.status === 403) {
+        throw new ForbiddenError(message, errorData.request_id);
+      }
+      if (response.status === 422 || response.status === 400) {
+        throw new ValidationError(
+          message,
+          errorData.request_id,
+          errorData.details,
+        );
+      }
+      if (response.status === 404) {
+        throw new NotFoundError(message, errorData.request_id);
+      }
+      if (response.status === 409) {
+        throw new ConflictError(
+          message,
+          errorData.request_id,
+          errorData.details,
+        );
+      }
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(
+          response.headers.get("retry-after"),
+        );
+        throw new RateLimitError(
+          message || "Rate limit exceeded",
+          retryAfterMs === null ? undefined : retryAfterMs / 1000,
+          errorData.request_id,
+          errorData.details,
+        );
+      }
+      if (response.status >= 500) {
+        throw new ServerError(message, errorData.request_id, errorData.details);
+      }
+
+      throw new ApiError(
+        message,
+        response.status,
+        errorData.request_id,
+        errorData.details,
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new NetworkError(
+        `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+    return decode(decoder, body, `response from ${description}`);
+  }
+
   async createStream(
     request: StreamCreateRequest,
+    options: CreateStreamOptions = {},
   ): Promise<StreamCreateResponse> {
-    return this.request<StreamCreateResponse>("/streams", {
-      method: "POST",
-      body: JSON.stringify(request),
-    });
+    return this.request(
+      "/streams",
+      streamCreateResponse,
+      {
+        method: "POST",
+        body: JSON.stringify(request),
+        headers: {
+          "Idempotency-Key": options.idempotencyKey ?? generateIdempotencyKey(),
+        },
+      },
+      options,
+    );
   }
 
-  async renewLease(streamId: string): Promise<KeepaliveResponse> {
-    return this.request<KeepaliveResponse>(`/streams/${streamId}/keepalive`, {
+  /**
+   * Send a renegotiated offer (e.g. after an ICE restart) for an existing stream
+   */
+  async renegotiate(
+    streamId: string,
+    request: StreamRenegotiateRequest,
+    options: RequestOptions = {},
+  ): Promise<StreamRenegotiateResponse> {
+    return this.request(
+      `/streams/${streamId}/webrtc`,
+      streamRenegotiateResponse,
+      {
+        method: "POST",
+        body: JSON.stringify(request),
+      },
+      options,
+    );
+  }
+
+  async renewLease(
+    streamId: string,
+    options: RequestOptions = {},
+  ): Promise<KeepaliveResponse> {
+    // Renewing a lease twice is harmless, so keepalives are always retryable
+    return this.request(
+      `/streams/${streamId}/keepalive`,
+      keepaliveResponse,
+      { method: "POST" },
+      { idempotent: true, ...options },
+    );
+  }
+
+  /**
+   * End a stream on the server instead of waiting for its lease to expire
+   */
+  async closeStream(
+    streamId: string,
+    options: RequestOptions = {},
+  ): Promise<StreamCloseResponse> {
+    // Closing a closed stream is harmless, so close is always retryable
+    return this.request(
+      `/streams/${streamId}/close`,
+      streamCloseResponse,
+      { method: "POST" },
+      { idempotent: true, ...options },
+    );
+  }
+
+  /**
+   * Best-effort close while the page is being unloaded, when a regular
+   * request may be cancelled. Needs fetch keepalive: a beacon cannot carry
+   * the Authorization header. Returns whether the request was queued.
+   */
+  closeStreamOnUnload(streamId: string): boolean {
+    const url = `${this.baseUrl}/streams/${streamId}/close`;
+    const credential = this.peekCredential();
+    if (!credential) {
+      return false;
+    }
+
+    if (typeof Request === "undefined" || !("keepalive" in Request.prototype)) {
+      return false;
+    }
+
+    this.fetch(url, {
       method: "POST",
-    });
+      keepalive: true,
+      headers: { Authorization: `Bearer ${credential}` },
+    }).catch(() => {});
+    return true;
+  }
+
+  /**
+   * Status, config and lease of a stream
+   */
+  async getStream(
+    streamId: string,
+    options: RequestOptions = {},
+  ): Promise<StreamInfo> {
+    return this.request(
+      `/streams/${streamId}`,
+      streamInfo,
+      { method: "GET" },
+      options,
+    );
+  }
+
+  /**
+   * Streams of this API key, most recent first
+   */
+  async listStreams(
+    options: ListStreamsOptions = {},
+  ): Promise<StreamListResponse> {
+    const { status, limit, cursor, ...requestOptions } = options;
+    const params = new URLSearchParams();
+    if (status !== undefined) {
+      params.set("status", status);
+    }
+    if (limit !== undefined) {
+      params.set("limit", String(limit));
+    }
+    if (cursor !== undefined) {
+      params.set("cursor", cursor);
+    }
+    const query = params.toString();
+
+    return this.request(
+      query ? `/streams?${query}` : "/streams",
+      streamListResponse,
+      { method: "GET" },
+      requestOptions,
+    );
   }
 
   async updatePrompt(
     streamId: string,
     prompt: string,
+    options: RequestOptions = {},
   ): Promise<StreamConfigResponse> {
-    return this.request<StreamConfigResponse>(
+    return this.request(
       `/streams/${streamId}/config/prompt`,
+      streamConfigResponse,
       {
         method: "PATCH",
         body: JSON.stringify({ prompt }),
       },
+      options,
+    );
+  }
+
+  /**
+   * Change the backend, model or output schema of a running stream
+   */
+  async updateInference(
+    streamId: string,
+    inference: StreamInferenceUpdateRequest,
+    options: RequestOptions = {},
+  ): Promise<StreamConfigResponse> {
+    return this.request(
+      `/streams/${streamId}/config/inference`,
+      streamConfigResponse,
+      {
+        method: "PATCH",
+        body: JSON.stringify(inference),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Change the processing config (sampling, fps, clip length, delay) of a
+   * running stream
+   */
+  async updateProcessing(
+    streamId: string,
+    processing: StreamProcessingUpdateRequest,
+    options: RequestOptions = {},
+  ): Promise<StreamConfigResponse> {
+    return this.request(
+      `/streams/${streamId}/config/processing`,
+      streamConfigResponse,
+      {
+        method: "PATCH",
+        body: JSON.stringify(processing),
+      },
+      options,
     );
   }
 
   async submitFeedback(
     streamId: string,
     feedback: FeedbackCreateRequest,
+    options: RequestOptions = {},
   ): Promise<StatusResponse> {
-    return this.request<StatusResponse>(`/streams/${streamId}/feedback`, {
-      method: "POST",
-      body: JSON.stringify(feedback),
-    });
+    return this.request(
+      `/streams/${streamId}/feedback`,
+      statusResponse,
+      {
+        method: "POST",
+        body: JSON.stringify(feedback),
+      },
+      options,
+    );
   }
 
-  async getAllFeedback(): Promise<FeedbackResponse[]> {
-    return this.request<FeedbackResponse[]>("/streams/feedback", {
-      method: "GET",
-    });
+  async getAllFeedback(
+    options: RequestOptions = {},
+  ): Promise<FeedbackResponse[]> {
+    return this.request(
+      "/streams/feedback",
+      feedbackResponses,
+      { method: "GET" },
+      options,
+    );
+  }
+
+  /**
+   * Mint a short-lived token for a browser, from a backend holding the API
+   * key. Hand it to the browser's auth provider as
+   * { token, expiresAt: Date.parse(expires_at) }.
+   */
+  async createToken(
+    request: TokenCreateRequest = {},
+    options: RequestOptions = {},
+  ): Promise<TokenResponse> {
+    return this.request(
+      "/auth/tokens",
+      tokenResponse,
+      {
+        method: "POST",
+        body: JSON.stringify(request),
+      },
+      options,
+    );
   }
 
   connectWebSocket(streamId: string): WebSocket {
+    const WebSocketImpl = this.WebSocketImpl ?? globalThis.WebSocket;
+    if (typeof WebSocketImpl !== "function") {
+      throw new WebSocketError(
+        "WebSocket is not available in this runtime, pass WebSocket in the client config",
+      );
+    }
     const wsUrl = this.baseUrl
       .replace("http://", "ws://")
       .replace("https://", "wss://");
-    return new WebSocket(`${wsUrl}/ws/streams/${streamId}`);
+    // Typed as the browser WebSocket, whose API ws implements as well
+    return new WebSocketImpl(`${wsUrl}/ws/streams/${streamId}`) as WebSocket;
   }
 
   /**
@@ -181,9 +903,7 @@ export class StreamClient {
    */
   async healthCheck(): Promise<string> {
     const url = `${this.baseUrl}/healthz`;
-    const response = await fetch(url, {
-      credentials: "include", // ← ADD THIS HERE TOO
-    });
+    const response = await this.fetch(url, { method: "GET" });
     return response.text();
   }
 }
@@ -0,0 +1,328 @@
+import { ProtocolError } from "./errors";
+import type {
+  WebRtcAnswer,
+  StreamProcessingConfig,
+  StreamCreateResponse,
+  StreamRenegotiateResponse,
+  StreamInferenceResult,
+  StreamErrorMessage,
+  StreamLeaseExpiringMessage,
+  StreamLeaseExpiredMessage,
+  StreamUnknownMessage,
+  StreamConfigResponse,
+  StreamInfo,
+  StreamListResponse,
+  StreamCloseResponse,
+  TokenResponse,
+  FeedbackResponse,
+  KeepaliveResponse,
+  StatusResponse,
+  ErrorResponse,
+} from "./types";
+
+/**
+ * Checks that a value has type T, recording every mismatch in issues.
+ * Unknown fields are allowed so that the server can add new ones.
+ */
+export type Decoder<T> = (
+  value: unknown,
+  path: string,
+  issues: string[],
+) => value is T;
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function mismatch(
+  path: string,
+  expected: string,
+  value: unknown,
+  issues: string[],
+): false {
+  issues.push(`${path || "value"} must be ${expected}, got ${describe(value)}`);
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const string: Decoder<string> = (value, path, issues): value is string =>
+  typeof value === "string" || mismatch(path, "a string", value, issues);
+
+const number: Decoder<number> = (value, path, issues): value is number =>
+  (typeof value === "number" && Number.isFinite(value)) ||
+  mismatch(path, "a number", value, issues);
+
+const boolean: Decoder<boolean> = (value, path, issues): value is boolean =>
+  typeof value === "boolean" || mismatch(path, "a boolean", value, issues);
+
+const unknown: Decoder<unknown> = (_value, _path, _issues): _value is unknown =>
+  true;
+
+const record: Decoder<Record<string, unknown>> = (
+  value,
+  path,
+  issues,
+): value is Record<string, unknown> =>
+  isPlainObject(value) || mismatch(path, "an object", value, issues);
+
+function literal<const L extends string>(...values: L[]): Decoder<L> {
+  return (value, path, issues): value is L =>
+    values.includes(value as L) ||
+    mismatch(
+      path,
+      `one of ${values.map((item) => `"${item}"`).join(", ")}`,
+      value,
+      issues,
+    );
+}
+
+function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path, issues): value is T | undefined =>
+    value === undefined || decoder(value, path, issues);
+}
+
+function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path, issues): value is T | null =>
+    value === null || decoder(value, path, issues);
+}
+
+function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) {
+      return mismatch(path, "an array", value, issues);
+    }
+    let ok = true;
+    value.forEach((item, index) => {
+      ok = decoder(item, `${path}[${index}]`, issues) && ok;
+    });
+    return ok;
+  };
+}
+
+function either<A, B>(a: Decoder<A>, b: Decoder<B>): Decoder<A | B> {
+  return (value, path, issues): value is A | B => {
+    const attempts: string[] = [];
+    if (a(value, path, attempts) || b(value, path, attempts)) {
+      return true;
+    }
+    issues.push(attempts.join(" or "));
+    return false;
+  };
+}
+
+function object<T>(fields: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> {
+  return (value, path, issues): value is T => {
+    if (!isPlainObject(value)) {
+      return mismatch(path, "an object", value, issues);
+    }
+    let ok = true;
+    for (const key of Object.keys(fields) as Array<keyof T & string>) {
+      const decoder = fields[key] as Decoder<unknown>;
+      ok = decoder(value[key], path ? `${path}.${key}` : key, issues) && ok;
+    }
+    return ok;
+  };
+}
+
+const backend = literal("gemini", "overshoot");
+
+const webRtcAnswer = object<WebRtcAnswer>({
+  type: literal("answer"),
+  sdp: string,
+});
+
+const iceServer = object<RTCIceServer>({
+  urls: either(string, array(string)),
+  username: optional(string),
+  credential: optional(string),
+});
+
+const processingConfig = object<StreamProcessingConfig>({
+  sampling_ratio: number,
+  fps: number,
+  clip_length_seconds: optional(number),
+  delay_seconds: optional(number),
+});
+
+export const streamCreateResponse = object<StreamCreateResponse>({
+  stream_id: string,
+  webrtc: webRtcAnswer,
+  lease: optional(object({ ttl_seconds: number })),
+  turn_servers: optional(array(iceServer)),
+});
+
+export const streamRenegotiateResponse = object<StreamRenegotiateResponse>({
+  stream_id: string,
+  webrtc: webRtcAnswer,
+});
+
+export const streamInferenceResult = object<StreamInferenceResult>({
+  id: string,
+  stream_id: string,
+  model_backend: backend,
+  model_name: string,
+  prompt: string,
+  result: string,
+  inference_latency_ms: number,
+  total_latency_ms: number,
+  ok: boolean,
+  error: nullable(string),
+});
+
+export const streamConfigResponse = object<StreamConfigResponse>({
+  id: string,
+  stream_id: string,
+  prompt: string,
+  backend,
+  model: string,
+  output_schema_json: optional(record),
+  processing: optional(processingConfig),
+  created_at: optional(string),
+  updated_at: optional(string),
+});
+
+export const streamInfo = object<StreamInfo>({
+  stream_id: string,
+  status: literal("active", "closed", "expired"),
+  config: streamConfigResponse,
+  lease: optional(object({ ttl_seconds: number, expires_at: string })),
+  created_at: string,
+  closed_at: optional(nullable(string)),
+});
+
+export const streamListResponse = object<StreamListResponse>({
+  streams: array(streamInfo),
+  next_cursor: optional(nullable(string)),
+});
+
+export const streamCloseResponse = object<StreamCloseResponse>({
+  status: literal("ok"),
+  stream_id: string,
+});
+
+export const tokenResponse = object<TokenResponse>({
+  token: string,
+  expires_at: string,
+  scopes: array(string),
+});
+
+export const feedbackResponse = object<FeedbackResponse>({
+  id: string,
+  stream_id: string,
+  rating: number,
+  category: string,
+  feedback: string,
+  created_at: optional(string),
+  updated_at: optional(string),
+});
+
+export const feedbackResponses = array(feedbackResponse);
+
+export const keepaliveResponse = object<KeepaliveResponse>({
+  status: literal("ok"),
+  stream_id: string,
+  ttl_seconds: number,
+});
+
+export const statusResponse = object<StatusResponse>({
+  status: literal("ok"),
+});
+
+export const errorResponse = object<ErrorResponse>({
+  error: string,
+  message: optional(string),
+  request_id: optional(string),
+  details: unknown,
+});
+
+const streamErrorMessage = object<StreamErrorMessage>({
+  type: literal("error"),
+  error: string,
+  message: optional(string),
+  request_id: optional(string),
+});
+
+const streamLeaseExpiringMessage = object<StreamLeaseExpiringMessage>({
+  type: literal("lease_expiring"),
+  stream_id: string,
+  ttl_seconds: number,
+});
+
+const streamLeaseExpiredMessage = object<StreamLeaseExpiredMessage>({
+  type: literal("lease_expired"),
+  stream_id: string,
+});
+
+/**
+ * Check a payload, throwing a ProtocolError listing every mismatch
+ * @param description What the payload is, e.g. "response from POST /streams"
+ */
+export function decode<T>(
+  decoder: Decoder<T>,
+  value: unknown,
+  description: string,
+): T {
+  const issues: string[] = [];
+  if (!decoder(value, "", issues)) {
+    throw new ProtocolError(
+      `Unexpected ${description}: ${issues.join("; ")}`,
+      issues,
+      value,
+    );
+  }
+  return value;
+}
+
+export type DecodedServerMessage =
+  | { kind: "result"; message: StreamInferenceResult }
+  | { kind: "error"; message: StreamErrorMessage }
+  | { kind: "lease_expiring"; message: StreamLeaseExpiringMessage }
+  | { kind: "lease_expired"; message: StreamLeaseExpiredMessage }
+  | { kind: "unknown"; message: StreamUnknownMessage };
+
+/**
+ * Sort a parsed WebSocket message by kind. Kinds added to the protocol
+ * after this SDK version are returned as "unknown" rather than rejected.
+ */
+export function decodeServerMessage(data: unknown): DecodedServerMessage {
+  const description = "WebSocket message";
+  const type = isPlainObject(data) ? data.type : undefined;
+  switch (type) {
+    case undefined:
+    case "result":
+      return {
+        kind: "result",
+        message: decode(streamInferenceResult, data, description),
+      };
+    case "error":
+      return {
+        kind: "error",
+        message: decode(streamErrorMessage, data, description),
+      };
+    case "lease_expiring":
+      return {
+        kind: "lease_expiring",
+        message: decode(streamLeaseExpiringMessage, data, description),
+      };
+    case "lease_expired":
+      return {
+        kind: "lease_expired",
+        message: decode(streamLeaseExpiredMessage, data, description),
+      };
+    default:
+      return {
+        kind: "unknown",
+        message: decode(
+          object<StreamUnknownMessage>({ type: string }),
+          data,
+          description,
+        ),
+      };
+  }
+}
@@ -0,0 +1,97 @@
+import { MediaAccessError, type MediaAccessErrorReason } from "./errors";
+
+export type ListCamerasOptions = {
+  /**
+   * Briefly open a camera when device labels are hidden, so the browser
+   * asks for permission and reveals them
+   * @default false
+   */
+  requestPermission?: boolean;
+};
+
+/**
+ * Map a getUserMedia / getDisplayMedia failure to a MediaAccessError
+ */
+export function toMediaAccessError(error: unknown): MediaAccessError {
+  if (error instanceof MediaAccessError) {
+    return error;
+  }
+
+  const name = error instanceof Error ? error.name : "";
+  const reasons: Record<string, MediaAccessErrorReason> = {
+    NotAllowedError: "denied",
+    SecurityError: "denied",
+    NotFoundError: "not_found",
+    OverconstrainedError: "overconstrained",
+    NotReadableError: "in_use",
+    AbortError: "in_use",
+    TypeError: "unsupported",
+  };
+  const reason = reasons[name] ?? "unknown";
+  const detail = error instanceof Error ? error.message : String(error);
+
+  return new MediaAccessError(
+    `Failed to access media source (${reason}): ${detail}`,
+    reason,
+    error,
+  );
+}
+
+async function enumerateCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
+
+/**
+ * List the available cameras. Pass a device's deviceId to the camera
+ * source to select it.
+ *
+ * Browsers hide labels (and sometimes device IDs) until the page has been
+ * granted camera access.
+ */
+export async function listCameras(
+  options: ListCamerasOptions = {},
+): Promise<MediaDeviceInfo[]> {
+  if (typeof navigator.mediaDevices?.enumerateDevices !== "function") {
+    throw new MediaAccessError(
+      "Device enumeration is not supported in this browser",
+      "unsupported",
+    );
+  }
+
+  const cameras = await enumerateCameras();
+  if (
+    !options.requestPermission ||
+    cameras.length === 0 ||
+    cameras.every((camera) => camera.label !== "")
+  ) {
+    return cameras;
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      video: true,
+      audio: false,
+    });
+  } catch (error) {
+    throw toMediaAccessError(error);
+  }
+  stream.getTracks().forEach((track) => track.stop());
+
+  return enumerateCameras();
+}
+
+/**
+ * Call listener whenever a media device is plugged in or removed.
+ * Returns a function that removes the listener.
+ */
+export function watchDevices(listener: () => void): () => void {
+  if (typeof navigator.mediaDevices?.addEventListener !== "function") {
+    return () => {};
+  }
+
+  navigator.mediaDevices.addEventListener("devicechange", listener);
+  return () =>
+    navigator.mediaDevices.removeEventListener("devicechange", listener);
+}
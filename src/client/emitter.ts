@@ -0,0 +1,138 @@
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Listener registered by once(), remembering the caller's listener so that
+ * off() and listenerCount() can match it
+ */
+type OnceWrapper<T> = EventListener<T> & { listener?: EventListener<T> };
+
+/**
+ * Minimal typed event emitter
+ *
+ * Listener exceptions are passed to onListenerError, which subclasses can
+ * override so that a faulty handler cannot break the emitter's owner.
+ */
+export class TypedEventEmitter<Events extends Record<string, any>> {
+  private listeners: {
+    [K in keyof Events]?: Set<EventListener<Events[K]>>;
+  } = {};
+
+  /**
+   * Register a listener. Returns a function that removes it.
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+  ): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  off<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+  ): void {
+    const set = this.listeners[event];
+    if (!set) {
+      return;
+    }
+    const registered = this.findListener(set, listener);
+    if (registered) {
+      set.delete(registered);
+    }
+  }
+
+  /**
+   * Register a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+  ): () => void {
+    const wrapper: OnceWrapper<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    wrapper.listener = listener;
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Remove all listeners for an event, or for every event
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event, or whether a given
+   * listener is registered (0 or 1)
+   */
+  listenerCount<K extends keyof Events>(
+    event: K,
+    listener?: EventListener<Events[K]>,
+  ): number {
+    const set = this.listeners[event];
+    if (!set) {
+      return 0;
+    }
+    if (listener) {
+      return this.findListener(set, listener) ? 1 : 0;
+    }
+    return set.size;
+  }
+
+  /**
+   * The registered listener matching listener, either itself or its
+   * once() wrapper
+   */
+  private findListener<T>(
+    set: Set<EventListener<T>>,
+    listener: EventListener<T>,
+  ): EventListener<T> | undefined {
+    if (set.has(listener)) {
+      return listener;
+    }
+    for (const registered of set) {
+      if ((registered as OnceWrapper<T>).listener === listener) {
+        return registered;
+      }
+    }
+    return undefined;
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners[event];
+    if (!set) {
+      return;
+    }
+
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of Array.from(set)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onListenerError(error, event);
+      }
+    }
+  }
+
+  /**
+   * Called when a listener throws. Rethrows by default.
+   */
+  protected onListenerError(error: unknown, _event: keyof Events): void {
+    throw error;
+  }
+}
@@ -1,4 +1,46 @@
-export class ApiError extends Error {
+/**
+ * Stable, machine-readable error codes
+ */
+export type OvershootErrorCode =
+  | "unknown_error"
+  | "api_error"
+  | "unauthorized"
+  | "forbidden"
+  | "validation_error"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "server_error"
+  | "network_error"
+  | "timeout"
+  | "media_access_error"
+  | "webrtc_negotiation_error"
+  | "websocket_error"
+  | "lease_expired"
+  | "result_validation_error"
+  | "protocol_error"
+  | "config_error"
+  | "invalid_state";
+
+/**
+ * Base class for all errors raised by the SDK
+ */
+export class OvershootError extends Error {
+  readonly code: OvershootErrorCode = "unknown_error";
+  /**
+   * Whether retrying the same operation may succeed
+   */
+  readonly retryable: boolean = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "OvershootError";
+  }
+}
+
+export class ApiError extends OvershootError {
+  readonly code: OvershootErrorCode = "api_error";
+  readonly retryable: boolean;
   readonly statusCode?: number;
   readonly requestId?: string;
   readonly details?: any;
@@ -14,17 +56,31 @@ export class ApiError extends Error {
     this.statusCode = statusCode;
     this.requestId = requestId;
     this.details = details;
+    this.retryable = statusCode === 408 || (statusCode ?? 0) >= 500;
   }
 }
 
 export class UnauthorizedError extends ApiError {
+  readonly code: OvershootErrorCode = "unauthorized";
+
   constructor(message: string, requestId?: string) {
     super(message, 401, requestId);
     this.name = "UnauthorizedError";
   }
 }
 
+export class ForbiddenError extends ApiError {
+  readonly code: OvershootErrorCode = "forbidden";
+
+  constructor(message: string, requestId?: string) {
+    super(message, 403, requestId);
+    this.name = "ForbiddenError";
+  }
+}
+
 export class ValidationError extends ApiError {
+  readonly code: OvershootErrorCode = "validation_error";
+
   constructor(message: string, requestId?: string, details?: any) {
     super(message, 422, requestId, details);
     this.name = "ValidationError";
@@ -32,13 +88,46 @@ export class ValidationError extends ApiError {
 }
 
 export class NotFoundError extends ApiError {
+  readonly code: OvershootErrorCode = "not_found";
+
   constructor(message: string, requestId?: string) {
     super(message, 404, requestId);
     this.name = "NotFoundError";
   }
 }
 
+export class ConflictError extends ApiError {
+  readonly code: OvershootErrorCode = "conflict";
+
+  constructor(message: string, requestId?: string, details?: any) {
+    super(message, 409, requestId, details);
+    this.name = "ConflictError";
+  }
+}
+
+export class RateLimitError extends ApiError {
+  readonly code: OvershootErrorCode = "rate_limited";
+  readonly retryable: boolean = true;
+  /**
+   * Seconds to wait before retrying, from the Retry-After header
+   */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    retryAfter?: number,
+    requestId?: string,
+    details?: any,
+  ) {
+    super(message, 429, requestId, details);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
 export class NetworkError extends ApiError {
+  readonly code: OvershootErrorCode = "network_error";
+  readonly retryable: boolean = true;
   readonly cause?: Error;
 
   constructor(message: string, cause?: Error) {
@@ -48,9 +137,173 @@ export class NetworkError extends ApiError {
   }
 }
 
+export class TimeoutError extends NetworkError {
+  readonly code: OvershootErrorCode = "timeout";
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 export class ServerError extends ApiError {
+  readonly code: OvershootErrorCode = "server_error";
+
   constructor(message: string, requestId?: string, details?: any) {
     super(message, 500, requestId, details);
     this.name = "ServerError";
   }
 }
+
+/**
+ * Why a media source could not be opened
+ */
+export type MediaAccessErrorReason =
+  | "denied"
+  | "not_found"
+  | "in_use"
+  | "overconstrained"
+  | "unsupported"
+  | "unknown";
+
+export class MediaAccessError extends OvershootError {
+  readonly code: OvershootErrorCode = "media_access_error";
+  readonly reason: MediaAccessErrorReason;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    reason: MediaAccessErrorReason,
+    cause?: unknown,
+  ) {
+    super(message);
+    this.name = "MediaAccessError";
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+export class WebRtcNegotiationError extends OvershootError {
+  readonly code: OvershootErrorCode = "webrtc_negotiation_error";
+  readonly retryable: boolean = true;
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "WebRtcNegotiationError";
+    this.cause = cause;
+  }
+}
+
+export class WebSocketError extends OvershootError {
+  readonly code: OvershootErrorCode = "websocket_error";
+  readonly retryable: boolean;
+  /**
+   * WebSocket close code, when the error was caused by a close
+   */
+  readonly closeCode?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, closeCode?: number, cause?: unknown) {
+    super(message);
+    this.name = "WebSocketError";
+    this.closeCode = closeCode;
+    this.cause = cause;
+    // 1008 is an authentication failure, which a retry cannot fix
+    this.retryable = closeCode !== 1008;
+  }
+}
+
+export class LeaseExpiredError extends OvershootError {
+  readonly code: OvershootErrorCode = "lease_expired";
+  readonly streamId?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, streamId?: string, cause?: unknown) {
+    super(message);
+    this.name = "LeaseExpiredError";
+    this.streamId = streamId;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A result could not be parsed as JSON or did not match outputSchema.
+ * The stream keeps running; the raw model output is kept for inspection.
+ */
+export class ResultValidationError extends OvershootError {
+  readonly code: OvershootErrorCode = "result_validation_error";
+  /**
+   * Raw result string as returned by the model
+   */
+  readonly raw: string;
+  /**
+   * Schema violations, empty when the result was not valid JSON
+   */
+  readonly issues: string[];
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    raw: string,
+    issues: string[] = [],
+    cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ResultValidationError";
+    this.raw = raw;
+    this.issues = issues;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The server sent a response or WebSocket message that does not match the
+ * API contract, e.g. a stream creation response without an SDP answer
+ */
+export class ProtocolError extends OvershootError {
+  readonly code: OvershootErrorCode = "protocol_error";
+  /**
+   * Fields that did not match, e.g. "webrtc.sdp must be a string"
+   */
+  readonly issues: string[];
+  /**
+   * The payload as received
+   */
+  readonly payload: unknown;
+
+  constructor(message: string, issues: string[] = [], payload?: unknown) {
+    super(message);
+    this.name = "ProtocolError";
+    this.issues = issues;
+    this.payload = payload;
+  }
+}
+
+/**
+ * Invalid configuration or arguments, rejected by the SDK before anything
+ * is sent. Server-side rejections are ValidationError.
+ */
+export class ConfigError extends OvershootError {
+  readonly code: OvershootErrorCode = "config_error";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * A method was called in a state that does not allow it, e.g.
+ * updatePrompt() before start()
+ */
+export class InvalidStateError extends OvershootError {
+  readonly code: OvershootErrorCode = "invalid_state";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidStateError";
+  }
+}
@@ -0,0 +1,255 @@
+import { ConfigError } from "./errors";
+import type { RealtimeVisionResult } from "./RealtimeVision";
+
+/**
+ * A result with the time the client received it
+ */
+export type HistoryEntry<T = string> = {
+  /**
+   * Client receive time, in ms since the epoch
+   */
+  receivedAt: number;
+  result: RealtimeVisionResult<T>;
+  /**
+   * Set when the result did not parse or match outputSchema; it is stored
+   * with ok: false and the validation message as error. Empty when the
+   * result was not valid JSON.
+   */
+  validationIssues?: string[];
+};
+
+export type HistoryQuery = {
+  /**
+   * Earliest receivedAt, inclusive
+   */
+  from?: number;
+  /**
+   * Latest receivedAt, inclusive
+   */
+  to?: number;
+  prompt?: string;
+  ok?: boolean;
+  /**
+   * Return at most this many of the most recent matches
+   */
+  limit?: number;
+};
+
+/**
+ * Persistence for result history. Entries are kept in receive order.
+ *
+ * The methods map onto an IndexedDB object store with an index on
+ * receivedAt: getRange() on IDBKeyRange.bound(), deleteBefore() and
+ * deleteOldest() on a cursor over the index.
+ */
+export interface HistoryStorage<T = string> {
+  add(entry: HistoryEntry<T>): Promise<void>;
+  /**
+   * Entries received between from and to (inclusive), oldest first
+   */
+  getRange(from: number, to: number): Promise<HistoryEntry<T>[]>;
+  count(): Promise<number>;
+  deleteBefore(timestamp: number): Promise<void>;
+  deleteOldest(count: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Default in-memory history storage
+ */
+export class MemoryHistoryStorage<T = string> implements HistoryStorage<T> {
+  private entries: HistoryEntry<T>[] = [];
+
+  async add(entry: HistoryEntry<T>): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async getRange(from: number, to: number): Promise<HistoryEntry<T>[]> {
+    return this.entries.filter(
+      (entry) => entry.receivedAt >= from && entry.receivedAt <= to,
+    );
+  }
+
+  async count(): Promise<number> {
+    return this.entries.length;
+  }
+
+  async deleteBefore(timestamp: number): Promise<void> {
+    this.entries = this.entries.filter(
+      (entry) => entry.receivedAt >= timestamp,
+    );
+  }
+
+  async deleteOldest(count: number): Promise<void> {
+    this.entries.splice(0, count);
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
+
+export type ResultHistoryOptions<T = string> = {
+  /**
+   * Maximum number of entries kept
+   * @default 1000, or unlimited when only maxAgeMs is set
+   */
+  maxEntries?: number;
+  /**
+   * Entries older than this are discarded
+   */
+  maxAgeMs?: number;
+  /**
+   * Where entries are stored
+   * @default MemoryHistoryStorage
+   */
+  storage?: HistoryStorage<T>;
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+const CSV_COLUMNS = [
+  "received_at",
+  "id",
+  "stream_id",
+  "model_backend",
+  "model_name",
+  "prompt",
+  "ok",
+  "result",
+  "error",
+  "inference_latency_ms",
+  "total_latency_ms",
+] as const;
+
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Bounded store of recent results, capped by count and/or age
+ */
+export class ResultHistory<T = string> {
+  private storage: HistoryStorage<T>;
+  private maxEntries: number | undefined;
+  private maxAgeMs: number | undefined;
+  // Serializes writes so pruning never races with a pending add
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: ResultHistoryOptions<T> = {}) {
+    const { maxEntries, maxAgeMs } = options;
+    if (
+      maxEntries !== undefined &&
+      (!Number.isInteger(maxEntries) || maxEntries < 1)
+    ) {
+      throw new ConfigError("maxEntries must be a positive integer");
+    }
+    if (maxAgeMs !== undefined && !(maxAgeMs > 0)) {
+      throw new ConfigError("maxAgeMs must be positive");
+    }
+
+    this.storage = options.storage ?? new MemoryHistoryStorage<T>();
+    this.maxAgeMs = maxAgeMs;
+    this.maxEntries =
+      maxEntries ?? (maxAgeMs === undefined ? DEFAULT_MAX_ENTRIES : undefined);
+  }
+
+  /**
+   * Store a result and discard entries beyond the caps
+   */
+  record(
+    result: RealtimeVisionResult<T>,
+    receivedAt = Date.now(),
+    validationIssues?: string[],
+  ): Promise<void> {
+    const write = this.writes.then(async () => {
+      await this.storage.add({
+        receivedAt,
+        result,
+        ...(validationIssues && { validationIssues }),
+      });
+
+      if (this.maxAgeMs !== undefined) {
+        await this.storage.deleteBefore(receivedAt - this.maxAgeMs);
+      }
+      if (this.maxEntries !== undefined) {
+        const excess = (await this.storage.count()) - this.maxEntries;
+        if (excess > 0) {
+          await this.storage.deleteOldest(excess);
+        }
+      }
+    });
+    // Keep the chain alive after a failed write
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Entries matching the query, oldest first
+   */
+  async query(query: HistoryQuery = {}): Promise<HistoryEntry<T>[]> {
+    await this.writes;
+
+    let from = query.from ?? 0;
+    if (this.maxAgeMs !== undefined) {
+      from = Math.max(from, Date.now() - this.maxAgeMs);
+    }
+    const entries = (
+      await this.storage.getRange(from, query.to ?? Number.MAX_SAFE_INTEGER)
+    ).filter(
+      ({ result }) =>
+        (query.prompt === undefined || result.prompt === query.prompt) &&
+        (query.ok === undefined || result.ok === query.ok),
+    );
+
+    return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+  }
+
+  /**
+   * Number of stored entries
+   */
+  async size(): Promise<number> {
+    await this.writes;
+    return this.storage.count();
+  }
+
+  async clear(): Promise<void> {
+    await this.writes;
+    await this.storage.clear();
+  }
+
+  /**
+   * Export matching entries as JSON Lines, one entry per line
+   */
+  async toJSONL(query: HistoryQuery = {}): Promise<string> {
+    const entries = await this.query(query);
+    return entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+  }
+
+  /**
+   * Export matching entries as CSV with a header row. The raw result
+   * string is exported; parsed values are not.
+   */
+  async toCSV(query: HistoryQuery = {}): Promise<string> {
+    const entries = await this.query(query);
+    const rows = entries.map(({ receivedAt, result }) => {
+      const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+        received_at: new Date(receivedAt).toISOString(),
+        id: result.id,
+        stream_id: result.stream_id,
+        model_backend: result.model_backend,
+        model_name: result.model_name,
+        prompt: result.prompt,
+        ok: result.ok,
+        result: result.result,
+        error: result.error,
+        inference_latency_ms: result.inference_latency_ms,
+        total_latency_ms: result.total_latency_ms,
+      };
+      return CSV_COLUMNS.map((column) => toCsvField(values[column])).join(",");
+    });
+
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+  }
+}
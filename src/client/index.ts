@@ -1,4 +1,60 @@
 export { StreamClient } from "./client";
+export type {
+  RetryOptions,
+  RequestOptions,
+  CreateStreamOptions,
+  ListStreamsOptions,
+  WebSocketConstructor,
+  WebSocketLike,
+  Middleware,
+  RequestContext,
+} from "./client";
 export { RealtimeVision } from "./RealtimeVision";
+export { listCameras, watchDevices } from "./devices";
+export type { ListCamerasOptions } from "./devices";
+export type { OutputSchema, FromSchema, InferResult } from "./schema";
+export type {
+  ChangeComparator,
+  ChangeDetectionOptions,
+  ChangeEvent,
+} from "./change";
+export { RuleEngine } from "./rules";
+export type {
+  Rule,
+  RuleCondition,
+  FieldCondition,
+  RuleState,
+  TriggerEvent,
+  RuleEngineEvents,
+  KeyPath,
+  PathValue,
+} from "./rules";
+export { ResultHistory, MemoryHistoryStorage } from "./history";
+export type {
+  HistoryEntry,
+  HistoryQuery,
+  HistoryStorage,
+  ResultHistoryOptions,
+} from "./history";
+export type {
+  RealtimeVisionMetrics,
+  LatencySummary,
+  LeaseRenewal,
+  OutboundVideoStats,
+  MetricsOptions,
+} from "./metrics";
+export { PromptScheduler, renderPromptTemplate } from "./scheduler";
+export type {
+  PromptScheduleEntry,
+  PromptScheduleOptions,
+  PromptSchedulerEvents,
+  PromptTarget,
+} from "./scheduler";
+export { TokenManager } from "./auth";
+export type { AccessToken, TokenProvider, AuthOptions } from "./auth";
+export type { Logger, LogLevel } from "./logger";
+export { TypedEventEmitter } from "./emitter";
+export type { RealtimeVisionState } from "./state";
+export type { ResultOverflowPolicy, ResultStreamOptions } from "./results";
 export * from "./types";
 export * from "./errors";
@@ -0,0 +1,171 @@
+/**
+ * Destination for SDK logs, e.g. console or an adapter for pino/winston
+ */
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type LoggerOptions = {
+  /**
+   * @default console
+   */
+  logger?: Logger;
+  /**
+   * Lowest level that is written
+   * @default "info"
+   */
+  level?: LogLevel;
+  /**
+   * Prepended to every message, e.g. "[RealtimeVision]"
+   */
+  prefix?: string;
+  /**
+   * Values replaced with [REDACTED] in every message, read per call so
+   * refreshed tokens are covered
+   */
+  secrets?: () => Array<string | null | undefined>;
+};
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+export const LOG_LEVELS = Object.keys(LEVELS) as LogLevel[];
+
+const REDACTED = "[REDACTED]";
+// Fields that hold credentials, redacted whatever their value
+const SECRET_KEYS = /^(authorization|api_?key|token|credential|password)$/i;
+const MAX_REDACT_DEPTH = 5;
+
+/**
+ * Replace secrets in strings, arrays, plain objects and errors. Other
+ * objects (media streams, ...) are passed through unchanged.
+ */
+export function redactSecrets(
+  value: unknown,
+  secrets: string[],
+  depth = 0,
+): unknown {
+  if (typeof value === "string") {
+    let redacted = value.replace(/Bearer\s+[^\s"',]+/g, `Bearer ${REDACTED}`);
+    for (const secret of secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+  if (
+    depth >= MAX_REDACT_DEPTH ||
+    value === null ||
+    typeof value !== "object"
+  ) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, secrets, depth + 1));
+  }
+  if (value instanceof Error) {
+    return redactError(value, secrets, depth);
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEYS.test(key) && item
+        ? REDACTED
+        : redactSecrets(item, secrets, depth + 1),
+    ]),
+  );
+}
+
+/**
+ * The error itself when it holds no secrets, otherwise a copy of the same
+ * class with its message, stack and cause redacted
+ */
+function redactError(
+  error: Error & { cause?: unknown },
+  secrets: string[],
+  depth: number,
+): Error {
+  const message = redactSecrets(error.message, secrets) as string;
+  const stack = redactSecrets(error.stack, secrets) as string | undefined;
+  const cause = redactSecrets(error.cause, secrets, depth + 1);
+  if (
+    message === error.message &&
+    stack === error.stack &&
+    cause === error.cause
+  ) {
+    return error;
+  }
+
+  // Same class and own fields (code, status, ...) as the original
+  const copy: Error & { cause?: unknown } = Object.create(
+    Object.getPrototypeOf(error),
+    Object.getOwnPropertyDescriptors(error),
+  );
+  copy.message = message;
+  copy.stack = stack;
+  if (cause !== undefined) {
+    copy.cause = cause;
+  }
+  return copy;
+}
+
+/**
+ * Applies a level, a prefix and secret redaction in front of a Logger
+ */
+export class LeveledLogger implements Logger {
+  private target: Logger;
+  private level: number;
+  private prefix: string[];
+  private secrets: () => Array<string | null | undefined>;
+
+  constructor(options: LoggerOptions = {}) {
+    this.target = options.logger ?? console;
+    this.level = LEVELS[options.level ?? "info"];
+    this.prefix = options.prefix ? [options.prefix] : [];
+    this.secrets = options.secrets ?? (() => []);
+  }
+
+  debug(...args: unknown[]): void {
+    if (this.level <= LEVELS.debug) {
+      this.target.debug(...this.format(args));
+    }
+  }
+
+  info(...args: unknown[]): void {
+    if (this.level <= LEVELS.info) {
+      this.target.info(...this.format(args));
+    }
+  }
+
+  warn(...args: unknown[]): void {
+    if (this.level <= LEVELS.warn) {
+      this.target.warn(...this.format(args));
+    }
+  }
+
+  error(...args: unknown[]): void {
+    if (this.level <= LEVELS.error) {
+      this.target.error(...this.format(args));
+    }
+  }
+
+  private format(args: unknown[]): unknown[] {
+    const secrets = this.secrets().filter((secret): secret is string =>
+      Boolean(secret),
+    );
+    return [...this.prefix, ...args.map((arg) => redactSecrets(arg, secrets))];
+  }
+}
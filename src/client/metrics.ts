@@ -0,0 +1,336 @@
+import type { StreamInferenceResult } from "./types";
+
+export type LatencySummary = {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  mean: number | null;
+  max: number | null;
+};
+
+export type LeaseRenewal = {
+  /**
+   * When the renewal finished, in ms since the epoch
+   */
+  timestamp: number;
+  ok: boolean;
+  /**
+   * TTL granted by the server, null when the renewal failed
+   */
+  ttlSeconds: number | null;
+  /**
+   * Round trip of the keepalive request
+   */
+  durationMs: number;
+};
+
+/**
+ * Outbound video stats from RTCPeerConnection.getStats(). Fields the
+ * browser doesn't report are null.
+ */
+export type OutboundVideoStats = {
+  /**
+   * Bits per second since the previous sample
+   */
+  bitrate: number | null;
+  framesPerSecond: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  packetsSent: number | null;
+  /**
+   * Packets reported lost by the receiver
+   */
+  packetsLost: number | null;
+  /**
+   * Fraction of packets lost in the last receiver report (0-1)
+   */
+  fractionLost: number | null;
+  roundTripTimeMs: number | null;
+  /**
+   * Local candidate type of the selected pair; "relay" means TURN is used
+   */
+  candidateType: RTCIceCandidateType | null;
+};
+
+export type RealtimeVisionMetrics = {
+  /**
+   * When the snapshot was taken, in ms since the epoch
+   */
+  timestamp: number;
+  /**
+   * Rolling window the result metrics cover
+   */
+  windowMs: number;
+  resultCount: number;
+  failedCount: number;
+  resultsPerSecond: number;
+  /**
+   * failedCount / resultCount, null without results
+   */
+  failureRatio: number | null;
+  inferenceLatencyMs: LatencySummary;
+  totalLatencyMs: LatencySummary;
+  /**
+   * Most recent lease renewals, oldest first
+   */
+  leaseRenewals: LeaseRenewal[];
+  /**
+   * Null when there is no peer connection or stats are unavailable
+   */
+  video: OutboundVideoStats | null;
+};
+
+export type MetricsOptions = {
+  /**
+   * Rolling window for result rate, failure ratio and latencies
+   * @default 60000
+   */
+  windowMs?: number;
+  /**
+   * How often the metrics event is emitted while running
+   * @default 5000
+   */
+  intervalMs?: number;
+};
+
+const MAX_LEASE_RENEWALS = 20;
+
+type ResultSample = {
+  receivedAt: number;
+  ok: boolean;
+  inferenceLatencyMs: number | null;
+  totalLatencyMs: number | null;
+};
+
+type BytesSample = { bytesSent: number; timestamp: number };
+
+/**
+ * A stats report entry with the fields read here. Browsers differ in which
+ * they report, so the rest are left unknown.
+ */
+type StatsEntry = RTCStats & {
+  kind?: string;
+  mediaType?: string;
+  remoteId?: string;
+  selectedCandidatePairId?: string;
+  localCandidateId?: string;
+  state?: string;
+  nominated?: boolean;
+  candidateType?: RTCIceCandidateType;
+  [field: string]: unknown;
+};
+
+/**
+ * Who a bitrate sample belongs to: the periodic metrics event or on-demand
+ * getMetrics() calls, so that neither shortens the other's window
+ */
+export type StatsReader = "interval" | "on-demand";
+
+/**
+ * Nearest-rank percentile of an ascending array
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+}
+
+export function summarizeLatency(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    mean:
+      sorted.length > 0
+        ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+        : null,
+    max: sorted.length > 0 ? sorted[sorted.length - 1]! : null,
+  };
+}
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Extract outbound video stats from a stats report. The bitrate is computed
+ * against the previous sample, which is returned for the next call.
+ */
+export function readOutboundVideoStats(
+  report: RTCStatsReport,
+  previous: BytesSample | null,
+): { stats: OutboundVideoStats | null; sample: BytesSample | null } {
+  const byId = new Map<string, StatsEntry>();
+  report.forEach((stat: RTCStats) => byId.set(stat.id, stat as StatsEntry));
+  const all = [...byId.values()];
+
+  const outbound = all.find(
+    (stat) =>
+      stat.type === "outbound-rtp" && (stat.kind ?? stat.mediaType) === "video",
+  );
+  if (!outbound) {
+    return { stats: null, sample: null };
+  }
+
+  const remoteInbound =
+    (outbound.remoteId ? byId.get(outbound.remoteId) : undefined) ??
+    all.find(
+      (stat) =>
+        stat.type === "remote-inbound-rtp" &&
+        (stat.kind ?? stat.mediaType) === "video",
+    );
+
+  const transport = all.find((stat) => stat.type === "transport");
+  const pair =
+    (transport?.selectedCandidatePairId
+      ? byId.get(transport.selectedCandidatePairId)
+      : undefined) ??
+    all.find(
+      (stat) =>
+        stat.type === "candidate-pair" &&
+        stat.nominated &&
+        stat.state === "succeeded",
+    );
+  const localCandidate = pair?.localCandidateId
+    ? byId.get(pair.localCandidateId)
+    : undefined;
+
+  const bytesSent = numberOrNull(outbound.bytesSent);
+  const timestamp = numberOrNull(outbound.timestamp);
+  const sample =
+    bytesSent !== null && timestamp !== null ? { bytesSent, timestamp } : null;
+
+  let bitrate: number | null = null;
+  // Counters restart with a new peer connection, e.g. after a rebuild
+  if (
+    sample &&
+    previous &&
+    sample.timestamp > previous.timestamp &&
+    sample.bytesSent >= previous.bytesSent
+  ) {
+    bitrate =
+      ((sample.bytesSent - previous.bytesSent) * 8 * 1000) /
+      (sample.timestamp - previous.timestamp);
+  }
+
+  // Both RTT fields are reported in seconds
+  const rttSeconds =
+    numberOrNull(remoteInbound?.roundTripTime) ??
+    numberOrNull(pair?.currentRoundTripTime);
+
+  return {
+    stats: {
+      bitrate,
+      framesPerSecond: numberOrNull(outbound.framesPerSecond),
+      frameWidth: numberOrNull(outbound.frameWidth),
+      frameHeight: numberOrNull(outbound.frameHeight),
+      packetsSent: numberOrNull(outbound.packetsSent),
+      packetsLost: numberOrNull(remoteInbound?.packetsLost),
+      fractionLost: numberOrNull(remoteInbound?.fractionLost),
+      roundTripTimeMs: rttSeconds !== null ? rttSeconds * 1000 : null,
+      candidateType: localCandidate?.candidateType ?? null,
+    },
+    sample,
+  };
+}
+
+/**
+ * Rolling aggregation of results and lease renewals
+ */
+export class MetricsCollector {
+  private windowMs: number;
+  private results: ResultSample[] = [];
+  private leaseRenewals: LeaseRenewal[] = [];
+  private startedAt = Date.now();
+  private bytesSamples: Record<StatsReader, BytesSample | null> = {
+    interval: null,
+    "on-demand": null,
+  };
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  recordResult(result: StreamInferenceResult, receivedAt = Date.now()): void {
+    this.results.push({
+      receivedAt,
+      ok: result.ok,
+      inferenceLatencyMs: numberOrNull(result.inference_latency_ms),
+      totalLatencyMs: numberOrNull(result.total_latency_ms),
+    });
+    this.prune(receivedAt);
+  }
+
+  recordLeaseRenewal(renewal: LeaseRenewal): void {
+    this.leaseRenewals.push(renewal);
+    if (this.leaseRenewals.length > MAX_LEASE_RENEWALS) {
+      this.leaseRenewals.shift();
+    }
+  }
+
+  /**
+   * Compute video stats from a stats report, keeping the byte count for
+   * the reader's next bitrate calculation
+   */
+  readVideoStats(
+    report: RTCStatsReport,
+    reader: StatsReader = "on-demand",
+  ): OutboundVideoStats | null {
+    const { stats, sample } = readOutboundVideoStats(
+      report,
+      this.bytesSamples[reader],
+    );
+    this.bytesSamples[reader] = sample;
+    return stats;
+  }
+
+  snapshot(
+    video: OutboundVideoStats | null,
+    now = Date.now(),
+  ): RealtimeVisionMetrics {
+    this.prune(now);
+
+    const failedCount = this.results.filter((sample) => !sample.ok).length;
+    const latencies = (key: "inferenceLatencyMs" | "totalLatencyMs") =>
+      this.results
+        .filter((sample) => sample.ok && sample[key] !== null)
+        .map((sample) => sample[key]!);
+    // Shorter than the window right after start()
+    const spanMs = Math.min(this.windowMs, now - this.startedAt);
+
+    return {
+      timestamp: now,
+      windowMs: this.windowMs,
+      resultCount: this.results.length,
+      failedCount,
+      resultsPerSecond: spanMs > 0 ? this.results.length / (spanMs / 1000) : 0,
+      failureRatio:
+        this.results.length > 0 ? failedCount / this.results.length : null,
+      inferenceLatencyMs: summarizeLatency(latencies("inferenceLatencyMs")),
+      totalLatencyMs: summarizeLatency(latencies("totalLatencyMs")),
+      leaseRenewals: [...this.leaseRenewals],
+      video,
+    };
+  }
+
+  /**
+   * Start a new measurement, e.g. on start()
+   */
+  reset(now = Date.now()): void {
+    this.results = [];
+    this.leaseRenewals = [];
+    this.startedAt = now;
+    this.bytesSamples = { interval: null, "on-demand": null };
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    const firstInWindow = this.results.findIndex(
+      (sample) => sample.receivedAt >= cutoff,
+    );
+    this.results =
+      firstInWindow === -1 ? [] : this.results.slice(firstInWindow);
+  }
+}
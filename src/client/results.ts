@@ -0,0 +1,179 @@
+import { ConfigError } from "./errors";
+
+/**
+ * What to do with a new result when a consumer's buffer is full
+ *
+ * - drop-oldest: discard the oldest buffered result
+ * - drop-newest: discard the incoming result
+ * - block: keep every result; the buffer grows past bufferSize until the
+ *   consumer catches up (results arrive over a WebSocket that cannot be
+ *   paused, so nothing upstream is slowed down)
+ */
+export type ResultOverflowPolicy = "drop-oldest" | "drop-newest" | "block";
+
+export type ResultStreamOptions = {
+  /**
+   * Maximum number of buffered results per consumer
+   * @default 100
+   */
+  bufferSize?: number;
+  /**
+   * Overflow policy when the buffer is full
+   * @default "drop-oldest"
+   */
+  overflow?: ResultOverflowPolicy;
+  /**
+   * Ends the iteration when aborted
+   */
+  signal?: AbortSignal;
+};
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+/**
+ * Single-consumer buffered async iterator fed by push()
+ */
+export class ResultQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiters: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error: unknown = null;
+  private bufferSize: number;
+  private overflow: ResultOverflowPolicy;
+  private onClose: () => void;
+
+  /**
+   * Number of results dropped because the buffer was full
+   */
+  dropped = 0;
+
+  constructor(
+    options: ResultStreamOptions = {},
+    onClose: () => void = () => {},
+  ) {
+    const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    if (!Number.isInteger(bufferSize) || bufferSize < 1) {
+      throw new ConfigError("bufferSize must be a positive integer");
+    }
+
+    this.bufferSize = bufferSize;
+    this.overflow = options.overflow ?? "drop-oldest";
+    this.onClose = onClose;
+
+    if (options.signal) {
+      if (options.signal.aborted) {
+        this.end();
+      } else {
+        options.signal.addEventListener("abort", () => this.end(), {
+          once: true,
+        });
+      }
+    }
+  }
+
+  push(value: T): void {
+    if (this.done) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === "drop-newest") {
+        this.dropped++;
+        return;
+      }
+      if (this.overflow === "drop-oldest") {
+        this.buffer.shift();
+        this.dropped++;
+      }
+    }
+    this.buffer.push(value);
+  }
+
+  /**
+   * End the iteration once buffered results are consumed
+   */
+  end(): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.onClose();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * Throw from the iteration once buffered results are consumed
+   */
+  fail(error: unknown): void {
+    if (this.done) {
+      return;
+    }
+    this.error = error;
+    this.done = true;
+    this.onClose();
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.error !== null) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.error = null;
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  /**
+   * Expose the queue as a pull-based ReadableStream
+   */
+  toReadableStream(): ReadableStream<T> {
+    return new ReadableStream<T>(
+      {
+        pull: async (controller) => {
+          const { value, done } = await this.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        },
+        cancel: async () => {
+          await this.return();
+        },
+      },
+      { highWaterMark: 0 },
+    );
+  }
+}
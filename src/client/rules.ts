@@ -0,0 +1,426 @@
+import { TypedEventEmitter } from "./emitter";
+import { ConfigError } from "./errors";
+import { getPath } from "./change";
+import { isDeepEqual } from "./schema";
+import type { RealtimeVisionResult } from "./RealtimeVision";
+
+type PrevDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Dotted key paths into T, e.g. "person_count" or "objects.0.label"
+ */
+export type KeyPath<T, Depth extends number = 4> = [Depth] extends [never]
+  ? never
+  : unknown extends T
+    ? string
+    : T extends readonly (infer E)[]
+      ? `${number}` | `${number}.${KeyPath<E, PrevDepth[Depth]>}`
+      : T extends object
+        ? {
+            [K in keyof T & string]:
+              K | `${K}.${KeyPath<T[K], PrevDepth[Depth]>}`;
+          }[keyof T & string]
+        : never;
+
+type Child<T, K extends string> = T extends readonly (infer E)[]
+  ? K extends `${number}`
+    ? E | undefined
+    : undefined
+  : T extends object
+    ? K extends keyof T
+      ? T[K]
+      : undefined
+    : undefined;
+
+/**
+ * Type of the value found at a key path
+ */
+export type PathValue<T, P extends string> = unknown extends T
+  ? unknown
+  : P extends `${infer K}.${infer Rest}`
+    ? PathValue<Child<T, K>, Rest>
+    : Child<T, P>;
+
+/**
+ * Tests on a single value. Every operator given must hold.
+ */
+export type FieldCondition<V> = {
+  eq?: V;
+  neq?: V;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  /**
+   * Substring of a string, or element of an array
+   */
+  contains?: NonNullable<V> extends readonly (infer E)[] ? E : string;
+  /**
+   * Regular expression tested against a string
+   */
+  matches?: RegExp | string;
+};
+
+/**
+ * A condition over a parsed result: operators on a field (or on the whole
+ * value when path is omitted), a combination of conditions, or a predicate
+ */
+export type RuleCondition<T> =
+  | {
+      [P in KeyPath<T>]: { path: P } & FieldCondition<PathValue<T, P>>;
+    }[KeyPath<T>]
+  | ({ path?: undefined } & FieldCondition<T>)
+  | { all: RuleCondition<T>[] }
+  | { any: RuleCondition<T>[] }
+  | { not: RuleCondition<T> }
+  | ((value: T) => boolean);
+
+export type Rule<T> = {
+  /**
+   * Unique name, reported in trigger events
+   */
+  name: string;
+  when: RuleCondition<T>;
+  /**
+   * How long the condition must hold before the rule activates, in ms.
+   * The rule activates when this elapses, even if no new result arrives.
+   * @default 0
+   */
+  sustainFor?: number;
+  /**
+   * How long the condition must be false before the rule deactivates, in ms
+   * @default 0
+   */
+  releaseFor?: number;
+  /**
+   * Minimum time between two triggers of this rule, in ms
+   * @default 0
+   */
+  cooldown?: number;
+  /**
+   * Fire when the rule activates (rising), deactivates (falling) or both
+   * @default "rising"
+   */
+  edge?: "rising" | "falling" | "both";
+};
+
+export type RuleState = {
+  name: string;
+  /**
+   * Whether the condition held for the latest result
+   */
+  matching: boolean;
+  /**
+   * Whether the rule is active, i.e. the condition was sustained
+   */
+  active: boolean;
+  /**
+   * When matching last flipped, in ms since the epoch
+   */
+  changedAt: number | null;
+  activeSince: number | null;
+  lastTriggeredAt: number | null;
+  triggerCount: number;
+};
+
+export type TriggerEvent<T> = {
+  rule: string;
+  edge: "rising" | "falling";
+  value: T;
+  timestamp: number;
+  state: RuleState;
+};
+
+export interface RuleEngineEvents<T = unknown> {
+  trigger: TriggerEvent<T>;
+  stateChange: RuleState;
+}
+
+function evaluate<T>(condition: RuleCondition<T>, value: T): boolean {
+  if (typeof condition === "function") {
+    return condition(value);
+  }
+  if ("all" in condition) {
+    return condition.all.every((child) => evaluate(child, value));
+  }
+  if ("any" in condition) {
+    return condition.any.some((child) => evaluate(child, value));
+  }
+  if ("not" in condition) {
+    return !evaluate(condition.not, value);
+  }
+
+  const field = condition as { path?: string } & FieldCondition<unknown>;
+  const actual = field.path ? getPath(value, field.path) : value;
+
+  if ("eq" in field && !isDeepEqual(actual, field.eq)) {
+    return false;
+  }
+  if ("neq" in field && isDeepEqual(actual, field.neq)) {
+    return false;
+  }
+
+  const bounds: Array<[number | undefined, (n: number) => boolean]> = [
+    [field.gt, (n) => typeof actual === "number" && actual > n],
+    [field.gte, (n) => typeof actual === "number" && actual >= n],
+    [field.lt, (n) => typeof actual === "number" && actual < n],
+    [field.lte, (n) => typeof actual === "number" && actual <= n],
+  ];
+  for (const [bound, check] of bounds) {
+    if (bound !== undefined && !check(bound)) {
+      return false;
+    }
+  }
+
+  if (field.contains !== undefined) {
+    const found =
+      typeof actual === "string"
+        ? actual.includes(String(field.contains))
+        : Array.isArray(actual) &&
+          actual.some((item) => isDeepEqual(item, field.contains));
+    if (!found) {
+      return false;
+    }
+  }
+
+  if (field.matches !== undefined) {
+    const pattern =
+      typeof field.matches === "string"
+        ? new RegExp(field.matches)
+        : field.matches;
+    // Reset lastIndex so global patterns behave the same on every result
+    pattern.lastIndex = 0;
+    if (typeof actual !== "string" || !pattern.test(actual)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Evaluates named rules over parsed results and fires trigger events, with
+ * sustained-for durations, cooldowns and rising/falling edges.
+ *
+ * @example
+ * const rules = new RuleEngine<{ person_count: number }>([
+ *   { name: "crowd", when: { path: "person_count", gt: 3 }, sustainFor: 5000 },
+ * ]);
+ * rules.attach(vision);
+ * rules.on("trigger", ({ rule }) => alert(rule));
+ */
+export class RuleEngine<T = unknown> extends TypedEventEmitter<
+  RuleEngineEvents<T>
+> {
+  private rules: Rule<T>[];
+  private states = new Map<string, RuleState>();
+  /**
+   * Pending sustainFor/releaseFor transitions, so a rule settles even when
+   * no further result arrives
+   */
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(rules: Rule<T>[]) {
+    super();
+    this.validateRules(rules);
+    this.rules = rules;
+    this.reset();
+  }
+
+  private validateRules(rules: Rule<T>[]): void {
+    const names = new Set<string>();
+    for (const rule of rules) {
+      if (!rule.name || typeof rule.name !== "string") {
+        throw new ConfigError("rule name must be a non-empty string");
+      }
+      if (names.has(rule.name)) {
+        throw new ConfigError(`duplicate rule name: ${rule.name}`);
+      }
+      names.add(rule.name);
+
+      for (const key of ["sustainFor", "releaseFor", "cooldown"] as const) {
+        const ms = rule[key];
+        if (ms !== undefined && !(ms >= 0)) {
+          throw new ConfigError(
+            `${key} of rule "${rule.name}" must be non-negative`,
+          );
+        }
+      }
+      if (
+        rule.edge !== undefined &&
+        !["rising", "falling", "both"].includes(rule.edge)
+      ) {
+        throw new ConfigError(
+          'rule edge must be "rising", "falling", or "both"',
+        );
+      }
+    }
+  }
+
+  /**
+   * Evaluate every rule against a parsed result
+   */
+  push(value: T, timestamp = Date.now()): void {
+    for (const rule of this.rules) {
+      this.evaluateRule(rule, value, timestamp);
+    }
+  }
+
+  private evaluateRule(rule: Rule<T>, value: T, now: number): void {
+    const state = this.states.get(rule.name)!;
+    const matching = evaluate(rule.when, value);
+    let changed = false;
+
+    if (matching !== state.matching || state.changedAt === null) {
+      state.matching = matching;
+      state.changedAt = now;
+      changed = true;
+    }
+
+    const heldFor = now - state.changedAt!;
+    let edge: "rising" | "falling" | null = null;
+
+    if (!state.active && matching && heldFor >= (rule.sustainFor ?? 0)) {
+      state.active = true;
+      state.activeSince = now;
+      edge = "rising";
+    } else if (state.active && !matching && heldFor >= (rule.releaseFor ?? 0)) {
+      state.active = false;
+      state.activeSince = null;
+      edge = "falling";
+    }
+
+    const fires = rule.edge ?? "rising";
+    const coolingDown =
+      state.lastTriggeredAt !== null &&
+      now - state.lastTriggeredAt < (rule.cooldown ?? 0);
+
+    if (edge && (fires === "both" || fires === edge) && !coolingDown) {
+      state.lastTriggeredAt = now;
+      state.triggerCount++;
+      this.emit("trigger", {
+        rule: rule.name,
+        edge,
+        value,
+        timestamp: now,
+        state: { ...state },
+      });
+    }
+
+    if (changed || edge) {
+      this.emit("stateChange", { ...state });
+    }
+
+    this.schedulePending(rule, value, now);
+  }
+
+  /**
+   * Re-evaluate a rule with its latest value once its sustainFor or
+   * releaseFor elapses
+   */
+  private schedulePending(rule: Rule<T>, value: T, now: number): void {
+    this.clearTimer(rule.name);
+    const state = this.states.get(rule.name)!;
+    const duration = state.matching ? rule.sustainFor : rule.releaseFor;
+    if (state.matching === state.active || !duration) {
+      return;
+    }
+
+    const due = state.changedAt! + duration;
+    this.timers.set(
+      rule.name,
+      setTimeout(
+        () => {
+          this.timers.delete(rule.name);
+          // Unlike push(), nothing up the stack catches a throwing listener
+          // here, so log it as RealtimeVision does for its own listeners
+          try {
+            this.evaluateRule(rule, value, due);
+          } catch (error) {
+            console.error(
+              `[RuleEngine] Error evaluating rule "${rule.name}":`,
+              error,
+            );
+          }
+        },
+        Math.max(0, due - now),
+      ),
+    );
+  }
+
+  private clearTimer(name: string): void {
+    const timer = this.timers.get(name);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(name);
+    }
+  }
+
+  /**
+   * Call listener whenever the named rule fires. Returns a function that
+   * removes it.
+   */
+  onTrigger(
+    name: string,
+    listener: (event: TriggerEvent<T>) => void,
+  ): () => void {
+    return this.on("trigger", (event) => {
+      if (event.rule === name) {
+        listener(event);
+      }
+    });
+  }
+
+  /**
+   * Feed this engine with the successful results of a RealtimeVision
+   * instance. Returns a function that detaches it.
+   */
+  attach(vision: {
+    on(
+      event: "result",
+      listener: (result: RealtimeVisionResult<T>) => void,
+    ): () => void;
+  }): () => void {
+    return vision.on("result", (result) => {
+      if (result.ok) {
+        this.push(result.parsed);
+      }
+    });
+  }
+
+  /**
+   * Current state of a rule, or null for an unknown name
+   */
+  getState(name: string): RuleState | null {
+    const state = this.states.get(name);
+    return state ? { ...state } : null;
+  }
+
+  /**
+   * Current state of every rule, in declaration order
+   */
+  getStates(): RuleState[] {
+    return this.rules.map((rule) => ({ ...this.states.get(rule.name)! }));
+  }
+
+  /**
+   * Forget all rule state, e.g. after restarting a stream
+   */
+  reset(): void {
+    for (const name of this.timers.keys()) {
+      this.clearTimer(name);
+    }
+    this.states.clear();
+    for (const rule of this.rules) {
+      this.states.set(rule.name, {
+        name: rule.name,
+        matching: false,
+        active: false,
+        changedAt: null,
+        activeSince: null,
+        lastTriggeredAt: null,
+        triggerCount: 0,
+      });
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import { TypedEventEmitter } from "./emitter";
+import { ConfigError, InvalidStateError } from "./errors";
+import { getPath } from "./change";
+
+export type PromptScheduleEntry = {
+  /**
+   * Tag for results of this entry
+   * @default the prompt template
+   */
+  name?: string;
+  /**
+   * Prompt, optionally with {{variable}} placeholders
+   */
+  prompt: string;
+  /**
+   * How long the entry stays active, in ms
+   * @default intervalMs of the schedule
+   */
+  durationMs?: number;
+  /**
+   * Share of turns in a weighted schedule
+   * @default 1
+   */
+  weight?: number;
+};
+
+export type PromptScheduleOptions = {
+  entries: PromptScheduleEntry[];
+  /**
+   * "sequence" cycles through the entries in order, "weighted" gives each
+   * entry a share of turns proportional to its weight
+   * @default "sequence"
+   */
+  mode?: "sequence" | "weighted";
+  /**
+   * Default time each entry stays active, in ms
+   * @default 5000
+   */
+  intervalMs?: number;
+  /**
+   * Quiet period before a next(), goTo() or refresh() is sent, so rapid
+   * changes result in a single prompt update
+   * @default 300
+   */
+  debounceMs?: number;
+  /**
+   * Values for {{variable}} placeholders, read at every switch
+   */
+  variables?: Record<string, unknown> | (() => Record<string, unknown>);
+};
+
+export interface PromptSchedulerEvents {
+  switch: { entry: string; index: number; prompt: string };
+  error: { error: Error; entry: string };
+}
+
+/**
+ * Anything whose prompt can be updated, e.g. a RealtimeVision instance
+ */
+export type PromptTarget = {
+  updatePrompt(prompt: string): Promise<void>;
+};
+
+const DEFAULT_INTERVAL_MS = 5000;
+const DEFAULT_DEBOUNCE_MS = 300;
+// Applied prompts remembered for tagging results that arrive late
+const MAX_APPLIED_PROMPTS = 16;
+
+/**
+ * Fill {{variable}} placeholders. Dotted paths such as {{store.aisle}} are
+ * supported; objects are inserted as JSON.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<string, unknown> = {},
+): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    const value = getPath(variables, name);
+    if (value === undefined || value === null) {
+      throw new ConfigError(`Missing prompt variable: ${name}`);
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Rotates the prompt of a stream through a list of entries. Prompt updates
+ * are sent one at a time, and results can be tagged with the entry that
+ * produced them.
+ *
+ * @example
+ * const scheduler = new PromptScheduler(vision, {
+ *   entries: [
+ *     { name: "stock", prompt: "Is aisle {{aisle}} fully stocked?" },
+ *     { name: "spills", prompt: "Is there a spill on the floor?" },
+ *   ],
+ *   variables: () => ({ aisle: currentAisle }),
+ * });
+ * scheduler.start();
+ */
+export class PromptScheduler extends TypedEventEmitter<PromptSchedulerEvents> {
+  private target: PromptTarget;
+  private entries: PromptScheduleEntry[];
+  private mode: "sequence" | "weighted";
+  private intervalMs: number;
+  private debounceMs: number;
+  private variables: PromptScheduleOptions["variables"];
+
+  private index = -1;
+  private credits: number[];
+  private running = false;
+  private dwellTimer: ReturnType<typeof setTimeout> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private updates: Promise<void> = Promise.resolve();
+  private applied: Array<{ entry: string; prompt: string }> = [];
+
+  constructor(target: PromptTarget, options: PromptScheduleOptions) {
+    super();
+    this.validateOptions(options);
+    this.target = target;
+    this.entries = options.entries;
+    this.mode = options.mode ?? "sequence";
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.variables = options.variables;
+    this.credits = this.entries.map(() => 0);
+  }
+
+  private validateOptions(options: PromptScheduleOptions): void {
+    if (!Array.isArray(options.entries) || options.entries.length === 0) {
+      throw new ConfigError("schedule entries must be a non-empty array");
+    }
+    const names = new Set<string>();
+    for (const entry of options.entries) {
+      if (!entry.prompt || typeof entry.prompt !== "string") {
+        throw new ConfigError(
+          "schedule entry prompt must be a non-empty string",
+        );
+      }
+      const name = entry.name ?? entry.prompt;
+      if (names.has(name)) {
+        throw new ConfigError(`duplicate schedule entry: ${name}`);
+      }
+      names.add(name);
+      if (entry.durationMs !== undefined && !(entry.durationMs > 0)) {
+        throw new ConfigError(
+          `durationMs of schedule entry "${name}" must be positive`,
+        );
+      }
+      if (entry.weight !== undefined && !(entry.weight > 0)) {
+        throw new ConfigError(
+          `weight of schedule entry "${name}" must be positive`,
+        );
+      }
+    }
+    if (
+      options.mode !== undefined &&
+      options.mode !== "sequence" &&
+      options.mode !== "weighted"
+    ) {
+      throw new ConfigError('schedule mode must be "sequence" or "weighted"');
+    }
+    if (options.intervalMs !== undefined && !(options.intervalMs > 0)) {
+      throw new ConfigError("schedule intervalMs must be positive");
+    }
+    if (options.debounceMs !== undefined && !(options.debounceMs >= 0)) {
+      throw new ConfigError("schedule debounceMs must be non-negative");
+    }
+  }
+
+  /**
+   * Activate the first entry without sending it, for a stream that is
+   * about to be created with the returned prompt. start() then keeps it
+   * for its duration.
+   */
+  begin(): string {
+    const index = this.pickNext();
+    const prompt = this.render(index);
+    this.activate(index, prompt);
+    return prompt;
+  }
+
+  /**
+   * Start rotating. The first entry is sent right away unless begin()
+   * already activated one.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    if (this.index === -1) {
+      this.switchTo(() => this.pickNext());
+    } else {
+      this.armDwellTimer();
+    }
+  }
+
+  /**
+   * Stop rotating. The current prompt stays on the stream; the next
+   * start() continues with the following entry.
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+  }
+
+  /**
+   * Stop and start over from the first entry on the next start()
+   */
+  reset(): void {
+    this.stop();
+    this.index = -1;
+    this.credits = this.entries.map(() => 0);
+    this.applied = [];
+  }
+
+  /**
+   * Skip to the next entry (debounced). Only while running.
+   */
+  next(): void {
+    this.request(() => this.pickNext());
+  }
+
+  /**
+   * Switch to the entry with this name (debounced)
+   */
+  goTo(name: string): void {
+    const index = this.entries.findIndex(
+      (entry) => (entry.name ?? entry.prompt) === name,
+    );
+    if (index === -1) {
+      throw new ConfigError(`Unknown schedule entry: ${name}`);
+    }
+    this.request(() => index);
+  }
+
+  /**
+   * Re-render the active entry with the current variables (debounced),
+   * e.g. after app state changed
+   */
+  refresh(): void {
+    this.request(() => Math.max(this.index, 0));
+  }
+
+  /**
+   * Name of the active entry, or null before the first switch
+   */
+  getActiveEntry(): string | null {
+    return this.index === -1 ? null : this.entryName(this.index);
+  }
+
+  /**
+   * Name of the entry a result belongs to, matched on the prompt the
+   * server echoes, since results lag behind prompt switches. Falls back to
+   * the active entry.
+   */
+  getEntryForPrompt(prompt: string): string | null {
+    for (let i = this.applied.length - 1; i >= 0; i--) {
+      if (this.applied[i]!.prompt === prompt) {
+        return this.applied[i]!.entry;
+      }
+    }
+    return this.getActiveEntry();
+  }
+
+  private entryName(index: number): string {
+    const entry = this.entries[index]!;
+    return entry.name ?? entry.prompt;
+  }
+
+  private render(index: number): string {
+    const variables =
+      typeof this.variables === "function" ? this.variables() : this.variables;
+    return renderPromptTemplate(this.entries[index]!.prompt, variables);
+  }
+
+  /**
+   * Index of the entry after the active one
+   */
+  private pickNext(): number {
+    if (this.mode === "sequence") {
+      return (this.index + 1) % this.entries.length;
+    }
+
+    // Smooth weighted round-robin: spreads turns evenly while keeping
+    // the proportions of the weights
+    const weights = this.entries.map((entry) => entry.weight ?? 1);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let best = 0;
+    for (let i = 0; i < weights.length; i++) {
+      this.credits[i]! += weights[i]!;
+      if (this.credits[i]! > this.credits[best]!) {
+        best = i;
+      }
+    }
+    this.credits[best]! -= total;
+    return best;
+  }
+
+  private request(pick: () => number): void {
+    if (!this.running) {
+      throw new InvalidStateError("Prompt schedule is not running");
+    }
+    // The requested entry replaces the scheduled switch
+    if (this.dwellTimer !== null) {
+      clearTimeout(this.dwellTimer);
+      this.dwellTimer = null;
+    }
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.switchTo(pick);
+    }, this.debounceMs);
+  }
+
+  /**
+   * Pick, render and send an entry. Updates are chained so they reach the
+   * target one at a time and in order; the entry is picked once the
+   * previous update has settled.
+   */
+  private switchTo(pick: () => number): void {
+    if (this.dwellTimer !== null) {
+      clearTimeout(this.dwellTimer);
+      this.dwellTimer = null;
+    }
+
+    this.updates = this.updates.then(async () => {
+      // Stopped while waiting for an earlier update
+      if (!this.running) {
+        return;
+      }
+      const index = pick();
+      const entry = this.entryName(index);
+      try {
+        const prompt = this.render(index);
+        await this.target.updatePrompt(prompt);
+        this.activate(index, prompt);
+      } catch (error) {
+        this.emit("error", {
+          error: error instanceof Error ? error : new Error(String(error)),
+          entry,
+        });
+      }
+      // A failed entry is retried after the next dwell period
+      if (this.running && this.debounceTimer === null) {
+        this.armDwellTimer();
+      }
+    });
+  }
+
+  private activate(index: number, prompt: string): void {
+    this.index = index;
+    const entry = this.entryName(index);
+    this.applied.push({ entry, prompt });
+    if (this.applied.length > MAX_APPLIED_PROMPTS) {
+      this.applied.shift();
+    }
+    this.emit("switch", { entry, index, prompt });
+  }
+
+  private armDwellTimer(): void {
+    if (this.dwellTimer !== null) {
+      clearTimeout(this.dwellTimer);
+    }
+    const entry = this.entries[Math.max(this.index, 0)]!;
+    this.dwellTimer = setTimeout(() => {
+      this.dwellTimer = null;
+      this.switchTo(() => this.pickNext());
+    }, entry.durationMs ?? this.intervalMs);
+  }
+
+  private clearTimers(): void {
+    if (this.dwellTimer !== null) {
+      clearTimeout(this.dwellTimer);
+      this.dwellTimer = null;
+    }
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { ConfigError } from "./errors";
+
+/**
+ * A JSON Schema object, as passed to outputSchema
+ */
+export type OutputSchema = Record<string, any>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type FromProperties<P, Required> = Simplify<
+  {
+    -readonly [K in keyof P & Required]: FromSchema<P[K]>;
+  } & {
+    -readonly [K in Exclude<keyof P, Required>]?: FromSchema<P[K]>;
+  }
+>;
+
+type FromType<Type, S> = Type extends "string"
+  ? string
+  : Type extends "number" | "integer"
+    ? number
+    : Type extends "boolean"
+      ? boolean
+      : Type extends "null"
+        ? null
+        : Type extends "array"
+          ? S extends { items: infer I }
+            ? FromSchema<I>[]
+            : unknown[]
+          : Type extends "object"
+            ? S extends { properties: infer P }
+              ? FromProperties<
+                  P,
+                  S extends { required: readonly (infer R)[] } ? R : never
+                >
+              : Record<string, unknown>
+            : unknown;
+
+/**
+ * TypeScript type described by a const JSON Schema.
+ * Covers type, properties, required, items, enum, const, anyOf and oneOf;
+ * anything else (or a schema that is not a literal type) is unknown.
+ */
+export type FromSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { anyOf: readonly (infer U)[] }
+      ? FromSchema<U>
+      : S extends { oneOf: readonly (infer U)[] }
+        ? FromSchema<U>
+        : S extends { type: readonly (infer U)[] }
+          ? FromType<U, S>
+          : S extends { type: infer U }
+            ? FromType<U, S>
+            : unknown;
+
+/**
+ * Type of parsed results: the explicit type T if given, otherwise inferred
+ * from the schema S, or the raw string when there is no schema
+ */
+export type InferResult<T, S> = unknown extends T
+  ? [S] extends [undefined]
+    ? string
+    : FromSchema<S>
+  : T;
+
+const CODE_FENCE_PATTERN = /```[\w-]*[ \t]*\r?\n?([\s\S]*?)```/;
+
+/**
+ * Parse a model's JSON output, tolerating a surrounding markdown code fence
+ * such as ```json ... ```
+ */
+export function parseJsonResult(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    const match = CODE_FENCE_PATTERN.exec(raw);
+    if (!match) {
+      throw error;
+    }
+    return JSON.parse(match[1]!);
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+  return aKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      isDeepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      ),
+  );
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Compiled pattern of each (sub)schema, so results are not matched against
+ * a RegExp rebuilt for every value
+ */
+const compiledPatterns = new WeakMap<OutputSchema, RegExp>();
+
+function subschemas(schema: OutputSchema): Array<[string, OutputSchema]> {
+  const entries: Array<[string, OutputSchema]> = [];
+  const add = (path: string, value: unknown) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      entries.push([path, value as OutputSchema]);
+    }
+  };
+
+  for (const [key, value] of Object.entries(schema.properties ?? {})) {
+    add(`.properties.${key}`, value);
+  }
+  add(".additionalProperties", schema.additionalProperties);
+  add(".items", schema.items);
+  for (const keyword of ["allOf", "anyOf", "oneOf"] as const) {
+    if (Array.isArray(schema[keyword])) {
+      schema[keyword].forEach((value: unknown, index: number) =>
+        add(`.${keyword}[${index}]`, value),
+      );
+    }
+  }
+  return entries;
+}
+
+/**
+ * Check a schema before it is used and compile its patterns.
+ * Throws ConfigError for a pattern that is not a valid regular expression.
+ */
+export function compileSchema(
+  schema: OutputSchema,
+  path = "outputSchema",
+): void {
+  if (schema.pattern !== undefined && !compiledPatterns.has(schema)) {
+    try {
+      compiledPatterns.set(schema, new RegExp(schema.pattern));
+    } catch (error) {
+      throw new ConfigError(
+        `${path}.pattern is not a valid regular expression: ${(error as Error).message}`,
+      );
+    }
+  }
+  for (const [subpath, subschema] of subschemas(schema)) {
+    compileSchema(subschema, `${path}${subpath}`);
+  }
+}
+
+function patternOf(schema: OutputSchema): RegExp | null {
+  let pattern = compiledPatterns.get(schema);
+  if (!pattern) {
+    try {
+      pattern = new RegExp(schema.pattern);
+    } catch {
+      return null;
+    }
+    compiledPatterns.set(schema, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ * Returns one message per violation, prefixed with its path (e.g.
+ * "$.objects[0]"), or an empty array when the value is valid.
+ *
+ * Supports the keywords used for structured output: type, enum, const,
+ * properties, required, additionalProperties, items, min/maxItems,
+ * min/maxLength, pattern, minimum, maximum, exclusiveMinimum,
+ * exclusiveMaximum, allOf, anyOf and oneOf. Other keywords are ignored.
+ */
+export function validateSchema(
+  schema: OutputSchema,
+  value: unknown,
+  path = "$",
+): string[] {
+  const issues: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push(
+        `${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`,
+      );
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !isDeepEqual(value, schema.const)) {
+    issues.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => isDeepEqual(value, option))
+  ) {
+    issues.push(
+      `${path}: expected one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`,
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      const pattern = patternOf(schema);
+      if (!pattern) {
+        issues.push(`${path}: invalid pattern ${schema.pattern}`);
+      } else if (!pattern.test(value)) {
+        issues.push(`${path}: does not match pattern ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${path}: greater than ${schema.maximum}`);
+    }
+    if (
+      typeof schema.exclusiveMinimum === "number" &&
+      value <= schema.exclusiveMinimum
+    ) {
+      issues.push(`${path}: not greater than ${schema.exclusiveMinimum}`);
+    }
+    if (
+      typeof schema.exclusiveMaximum === "number" &&
+      value >= schema.exclusiveMaximum
+    ) {
+      issues.push(`${path}: not less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, OutputSchema> = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!hasOwn(object, key)) {
+        issues.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = `${path}.${key}`;
+      if (hasOwn(properties, key)) {
+        issues.push(
+          ...validateSchema(properties[key]!, propertyValue, propertyPath),
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${propertyPath}: unexpected property`);
+      } else if (
+        schema.additionalProperties &&
+        typeof schema.additionalProperties === "object"
+      ) {
+        issues.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            propertyValue,
+            propertyPath,
+          ),
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      issues.push(...validateSchema(subschema, value, path));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.filter(
+      (subschema: OutputSchema) =>
+        validateSchema(subschema, value, path).length === 0,
+    );
+    if (matches.length === 0) {
+      issues.push(`${path}: does not match any allowed schema`);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (subschema: OutputSchema) =>
+        validateSchema(subschema, value, path).length === 0,
+    );
+    if (matches.length !== 1) {
+      issues.push(
+        `${path}: must match exactly one schema, matched ${matches.length}`,
+      );
+    }
+  }
+
+  return issues;
+}
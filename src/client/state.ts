@@ -0,0 +1,93 @@
+/**
+ * Connection states of a RealtimeVision session
+ *
+ * - idle: created, never started
+ * - acquiring-media: opening the camera / video / canvas source
+ * - negotiating: creating the peer connection and stream on the server
+ * - waiting-for-result: connected, no inference result received yet
+ * - running: results are flowing
+ * - degraded: WebSocket reconnecting or media path recovering
+ * - paused: connected with the lease and WebSocket kept alive, no frames sent
+ * - stopping: stop() in progress
+ * - stopped: stopped by the caller, can be started again
+ * - failed: stopped by a fatal error, can be started again
+ */
+export type RealtimeVisionState =
+  | "idle"
+  | "acquiring-media"
+  | "negotiating"
+  | "waiting-for-result"
+  | "running"
+  | "degraded"
+  | "paused"
+  | "stopping"
+  | "stopped"
+  | "failed";
+
+const TRANSITIONS: Record<RealtimeVisionState, readonly RealtimeVisionState[]> =
+  {
+    idle: ["acquiring-media"],
+    "acquiring-media": ["negotiating", "stopping", "failed"],
+    negotiating: ["waiting-for-result", "stopping", "failed"],
+    "waiting-for-result": [
+      "running",
+      "degraded",
+      "paused",
+      "stopping",
+      "failed",
+    ],
+    running: ["degraded", "paused", "stopping", "failed"],
+    degraded: ["running", "waiting-for-result", "paused", "stopping", "failed"],
+    paused: ["running", "waiting-for-result", "degraded", "stopping", "failed"],
+    stopping: ["stopped"],
+    stopped: ["acquiring-media"],
+    failed: ["acquiring-media", "stopping"],
+  };
+
+/**
+ * States in which a stream exists on the server and is kept alive
+ */
+const ACTIVE_STATES: readonly RealtimeVisionState[] = [
+  "waiting-for-result",
+  "running",
+  "degraded",
+  "paused",
+];
+
+export class StateMachine {
+  private current: RealtimeVisionState = "idle";
+  private onChange: (
+    from: RealtimeVisionState,
+    to: RealtimeVisionState,
+  ) => void;
+
+  constructor(
+    onChange: (from: RealtimeVisionState, to: RealtimeVisionState) => void,
+  ) {
+    this.onChange = onChange;
+  }
+
+  get state(): RealtimeVisionState {
+    return this.current;
+  }
+
+  get isActive(): boolean {
+    return ACTIVE_STATES.includes(this.current);
+  }
+
+  can(to: RealtimeVisionState): boolean {
+    return TRANSITIONS[this.current].includes(to);
+  }
+
+  /**
+   * Move to a new state, throwing on illegal transitions
+   */
+  transition(to: RealtimeVisionState): void {
+    if (!this.can(to)) {
+      throw new Error(`Illegal state transition: ${this.current} -> ${to}`);
+    }
+    const from = this.current;
+    this.current = to;
+    this.onChange(from, to);
+  }
+}
@@ -1,7 +1,46 @@
+export type CameraSource = {
+  type: "camera";
+  cameraFacing?: "user" | "environment";
+  /**
+   * Exact camera to open, from listCameras()
+   */
+  deviceId?: string;
+  /**
+   * Extra video constraints (resolution, frame rate, ...), applied on top of
+   * cameraFacing and deviceId
+   */
+  constraints?: MediaTrackConstraints;
+};
+
+export type ScreenSource = {
+  type: "screen";
+  /**
+   * Whether the cursor is drawn into the captured video
+   */
+  cursor?: "always" | "motion" | "never";
+  /**
+   * Preferred surface offered first in the browser's picker
+   */
+  displaySurface?: "monitor" | "window" | "browser";
+  width?: number;
+  height?: number;
+  frameRate?: number;
+};
+
+/**
+ * An app-owned MediaStream or track used as-is.
+ * The SDK never stops tracks it does not own.
+ */
+export type MediaStreamSource =
+  | { type: "media-stream"; stream: MediaStream; track?: never }
+  | { type: "media-stream"; track: MediaStreamTrack; stream?: never };
+
 export type StreamSource =
-  | { type: "camera"; cameraFacing: "user" | "environment" }
+  | CameraSource
   | { type: "video"; file: File }
-  | { type: "png-stream"; width?: number; height?: number; targetFps?: number };
+  | { type: "png-stream"; width?: number; height?: number; targetFps?: number }
+  | ScreenSource
+  | MediaStreamSource;
 
 export type WebRtcOffer = {
   type: "offer";
@@ -47,6 +86,24 @@ export type StreamCreateResponse = {
   turn_servers?: RTCIceServer[];
 };
 
+/**
+ * Inference fields that can be changed on a running stream
+ */
+export type StreamInferenceUpdateRequest = Partial<
+  Omit<StreamInferenceConfig, "prompt">
+>;
+
+export type StreamProcessingUpdateRequest = Partial<StreamProcessingConfig>;
+
+export type StreamRenegotiateRequest = {
+  webrtc: WebRtcOffer;
+};
+
+export type StreamRenegotiateResponse = {
+  stream_id: string;
+  webrtc: WebRtcAnswer;
+};
+
 export type StreamInferenceResult = {
   id: string;
   stream_id: string;
@@ -60,6 +117,51 @@ export type StreamInferenceResult = {
   error: string | null;
 };
 
+/**
+ * Error reported by the server on the result WebSocket, e.g. when inference
+ * cannot run. The stream stays open.
+ */
+export type StreamErrorMessage = {
+  type: "error";
+  error: string;
+  message?: string;
+  request_id?: string;
+};
+
+/**
+ * Sent when the lease will expire soon without a keepalive
+ */
+export type StreamLeaseExpiringMessage = {
+  type: "lease_expiring";
+  stream_id: string;
+  ttl_seconds: number;
+};
+
+/**
+ * Sent before the server closes a stream whose lease expired
+ */
+export type StreamLeaseExpiredMessage = {
+  type: "lease_expired";
+  stream_id: string;
+};
+
+/**
+ * A message kind this SDK version does not know
+ */
+export type StreamUnknownMessage = {
+  type: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Messages on the result WebSocket. Results have no type field.
+ */
+export type StreamServerMessage =
+  | ({ type?: "result" } & StreamInferenceResult)
+  | StreamErrorMessage
+  | StreamLeaseExpiringMessage
+  | StreamLeaseExpiredMessage;
+
 export type StreamConfigResponse = {
   id: string;
   stream_id: string;
@@ -67,10 +169,62 @@ export type StreamConfigResponse = {
   backend: "gemini" | "overshoot";
   model: string;
   output_schema_json?: Record<string, any>;
+  processing?: StreamProcessingConfig;
   created_at?: string;
   updated_at?: string;
 };
 
+export type StreamStatus = "active" | "closed" | "expired";
+
+export type StreamInfo = {
+  stream_id: string;
+  status: StreamStatus;
+  config: StreamConfigResponse;
+  /**
+   * Lease of an active stream; expires_at is an ISO 8601 timestamp
+   */
+  lease?: {
+    ttl_seconds: number;
+    expires_at: string;
+  };
+  created_at: string;
+  closed_at?: string | null;
+};
+
+export type StreamListResponse = {
+  streams: StreamInfo[];
+  /**
+   * Pass as cursor to fetch the next page, null on the last page
+   */
+  next_cursor?: string | null;
+};
+
+export type StreamCloseResponse = {
+  status: "ok";
+  stream_id: string;
+};
+
+export type TokenCreateRequest = {
+  /**
+   * Token lifetime, capped by the server
+   */
+  ttl_seconds?: number;
+  /**
+   * Operations the token is limited to, e.g. ["streams:create"].
+   * All operations of the API key when omitted.
+   */
+  scopes?: string[];
+};
+
+export type TokenResponse = {
+  token: string;
+  /**
+   * ISO 8601 timestamp
+   */
+  expires_at: string;
+  scopes: string[];
+};
+
 export type FeedbackCreateRequest = {
   rating: number;
   category: string;
@@ -1,7 +1,22 @@
 export { StreamClient } from "./client/client";
+export type {
+  RetryOptions,
+  RequestOptions,
+  CreateStreamOptions,
+  ListStreamsOptions,
+  WebSocketConstructor,
+  WebSocketLike,
+  Middleware,
+  RequestContext,
+} from "./client/client";
 export { RealtimeVision } from "./client/RealtimeVision";
+export { listCameras, watchDevices } from "./client/devices";
+export type { ListCamerasOptions } from "./client/devices";
 export type {
   StreamSource,
+  CameraSource,
+  ScreenSource,
+  MediaStreamSource,
   WebRtcOffer,
   WebRtcAnswer,
   StreamProcessingConfig,
@@ -9,20 +24,111 @@ export type {
   StreamClientMeta,
   StreamCreateRequest,
   StreamCreateResponse,
+  StreamInferenceUpdateRequest,
+  StreamProcessingUpdateRequest,
+  StreamRenegotiateRequest,
+  StreamRenegotiateResponse,
   StreamInferenceResult,
+  StreamErrorMessage,
+  StreamLeaseExpiringMessage,
+  StreamLeaseExpiredMessage,
+  StreamUnknownMessage,
+  StreamServerMessage,
   StreamConfigResponse,
+  StreamStatus,
+  StreamInfo,
+  StreamListResponse,
+  StreamCloseResponse,
+  TokenCreateRequest,
+  TokenResponse,
   FeedbackCreateRequest,
   FeedbackResponse,
   KeepaliveResponse,
   StatusResponse,
   ErrorResponse,
 } from "./client/types";
-export type { RealtimeVisionConfig } from "./client/RealtimeVision";
+export type {
+  RealtimeVisionConfig,
+  RealtimeVisionEvents,
+  RealtimeVisionResult,
+  PromptConfig,
+  PromptSession,
+  RealtimeVisionConfigUpdate,
+  ReconnectingEvent,
+  ReconnectedEvent,
+  RecoveringEvent,
+  RecoveredEvent,
+} from "./client/RealtimeVision";
+export type { OutputSchema, FromSchema, InferResult } from "./client/schema";
+export type {
+  ChangeComparator,
+  ChangeDetectionOptions,
+  ChangeEvent,
+} from "./client/change";
+export { RuleEngine } from "./client/rules";
+export type {
+  Rule,
+  RuleCondition,
+  FieldCondition,
+  RuleState,
+  TriggerEvent,
+  RuleEngineEvents,
+  KeyPath,
+  PathValue,
+} from "./client/rules";
+export { ResultHistory, MemoryHistoryStorage } from "./client/history";
+export type {
+  HistoryEntry,
+  HistoryQuery,
+  HistoryStorage,
+  ResultHistoryOptions,
+} from "./client/history";
+export type {
+  RealtimeVisionMetrics,
+  LatencySummary,
+  LeaseRenewal,
+  OutboundVideoStats,
+  MetricsOptions,
+} from "./client/metrics";
+export { PromptScheduler, renderPromptTemplate } from "./client/scheduler";
+export type {
+  PromptScheduleEntry,
+  PromptScheduleOptions,
+  PromptSchedulerEvents,
+  PromptTarget,
+} from "./client/scheduler";
+export { TokenManager } from "./client/auth";
+export type { AccessToken, TokenProvider, AuthOptions } from "./client/auth";
+export type { Logger, LogLevel } from "./client/logger";
+export { TypedEventEmitter } from "./client/emitter";
+export type { EventListener } from "./client/emitter";
+export type { RealtimeVisionState } from "./client/state";
+export type {
+  ResultOverflowPolicy,
+  ResultStreamOptions,
+} from "./client/results";
 export {
+  OvershootError,
   ApiError,
   UnauthorizedError,
+  ForbiddenError,
   ValidationError,
   NotFoundError,
+  ConflictError,
+  RateLimitError,
   NetworkError,
+  TimeoutError,
   ServerError,
+  MediaAccessError,
+  WebRtcNegotiationError,
+  WebSocketError,
+  LeaseExpiredError,
+  ResultValidationError,
+  ProtocolError,
+  ConfigError,
+  InvalidStateError,
+} from "./client/errors";
+export type {
+  OvershootErrorCode,
+  MediaAccessErrorReason,
 } from "./client/errors";
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  RealtimeVision,
+  type RealtimeVisionConfig,
+} from "../../client/RealtimeVision";
+import { StreamClient } from "../../client/client";
+import {
+  LeaseExpiredError,
+  ServerError,
+  UnauthorizedError,
+} from "../../client/errors";
+import { FakeOvershootServer } from "..";
+
+describe("FakeOvershootServer", () => {
+  let server: FakeOvershootServer;
+  let restore: () => void;
+
+  const createVision = (overrides: Partial<RealtimeVisionConfig> = {}) =>
+    new RealtimeVision<unknown, undefined>({
+      apiUrl: server.baseUrl,
+      apiKey: "test-key",
+      prompt: "count people",
+      onResult: () => {},
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    server = new FakeOvershootServer({ apiKeys: ["test-key"] });
+    restore = server.install();
+  });
+
+  afterEach(() => {
+    server.reset();
+    restore();
+  });
+
+  it("should run a full session with scripted results", async () => {
+    server.scriptResults({ results: ["1", "2", "3"], intervalMs: 10 });
+    const onResult = vi.fn();
+    const vision = createVision({ onResult });
+
+    await vision.start();
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledTimes(3));
+
+    const streamId = vision.getStreamId()!;
+    expect(onResult.mock.calls.map(([result]) => result.result)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+    expect(onResult).toHaveBeenCalledWith(
+      expect.objectContaining({ stream_id: streamId, prompt: "count people" }),
+    );
+    expect(server.peerConnections).toHaveLength(1);
+    expect(server.mediaDevices.requests[0]!.kind).toBe("user");
+
+    await vision.stop();
+    expect(server.getStream(streamId)!.status).toBe("closed");
+  });
+
+  it("should close the stream when stopped while negotiating", async () => {
+    server.setLatency(100);
+    const vision = createVision();
+
+    const starting = vision.start();
+    await vi.waitFor(
+      () =>
+        expect(server.requests).toContainEqual(
+          expect.objectContaining({ method: "POST", path: "/streams" }),
+        ),
+      { interval: 5 },
+    );
+    await vision.stop();
+
+    await expect(starting).rejects.toThrow("Failed to apply WebRTC answer");
+    const [stream] = server.getStreams();
+    await vi.waitFor(() => expect(stream!.status).toBe("closed"));
+  });
+
+  it("should update the prompt and record feedback", async () => {
+    const vision = createVision();
+    await vision.start();
+    const streamId = vision.getStreamId()!;
+
+    await vision.updatePrompt("count cars");
+    await vision.submitFeedback({ rating: 5, category: "accuracy" });
+
+    const stream = server.getStream(streamId)!;
+    expect(stream.config.prompt).toBe("count cars");
+    expect(stream.feedback).toEqual([
+      expect.objectContaining({ rating: 5, category: "accuracy" }),
+    ]);
+    expect(
+      server.requests.map((request) => `${request.method} ${request.path}`),
+    ).toContain(`PATCH /streams/${streamId}/config/prompt`);
+
+    await vision.stop();
+  });
+
+  it("should fail the session when the lease expires", async () => {
+    const onError = vi.fn();
+    const vision = createVision({ onError });
+    await vision.start();
+
+    server.expireLease(vision.getStreamId()!);
+    await vi.waitFor(() => expect(vision.getState()).toBe("failed"));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(LeaseExpiredError));
+  });
+
+  it("should inject failures and latency", async () => {
+    const client = new StreamClient({
+      baseUrl: server.baseUrl,
+      apiKey: "test-key",
+    });
+    server.failNext("GET /streams/feedback", { status: 503 });
+    await expect(client.getAllFeedback({ retry: false })).rejects.toThrow(
+      ServerError,
+    );
+
+    server.failNext("GET /streams/feedback", "network");
+    await expect(client.getAllFeedback({ retry: false })).rejects.toThrow();
+
+    server.setLatency(50);
+    const controller = new AbortController();
+    const pending = client.getAllFeedback({
+      retry: false,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+
+    server.setLatency(0);
+    await expect(client.getAllFeedback()).resolves.toEqual([]);
+  });
+
+  it("should reject unknown API keys over HTTP and WebSocket", async () => {
+    const client = new StreamClient({
+      baseUrl: server.baseUrl,
+      apiKey: "wrong-key",
+    });
+
+    await expect(client.getAllFeedback({ retry: false })).rejects.toThrow(
+      UnauthorizedError,
+    );
+
+    const vision = createVision();
+    await vision.start();
+    const socket = new server.WebSocket(
+      `wss://api.overshoot.test/ws/streams/${vision.getStreamId()}`,
+    );
+    const onclose = vi.fn();
+    socket.onclose = onclose;
+    await vi.waitFor(() => expect(socket.readyState).toBe(WebSocket.OPEN));
+    socket.send(JSON.stringify({ api_key: "wrong-key" }));
+
+    expect(onclose).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 1008 }),
+    );
+    await vision.stop();
+  });
+});
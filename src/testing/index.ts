@@ -0,0 +1,18 @@
+export { FakeOvershootServer, FakeWebSocket } from "./server";
+export {
+  FakeMediaDevices,
+  FakeMediaStream,
+  FakeMediaStreamTrack,
+  createFakeMediaStream,
+} from "./media";
+export { FakePeerConnection, FakeRtpSender } from "./peer";
+
+export type {
+  FakeServerOptions,
+  FakeResult,
+  FakeResultScript,
+  FakeFailure,
+  FakeRequest,
+  FakeStream,
+} from "./server";
+export type { FakeVideoTrackOptions } from "./media";
@@ -0,0 +1,260 @@
+export type FakeVideoTrackOptions = {
+  /**
+   * @default 640
+   */
+  width?: number;
+  /**
+   * @default 480
+   */
+  height?: number;
+  /**
+   * @default 30
+   */
+  frameRate?: number;
+  deviceId?: string;
+  label?: string;
+};
+
+let nextId = 0;
+
+/**
+ * A video MediaStreamTrack without a real source. end() simulates the
+ * device being unplugged or the user stopping a screen share.
+ */
+export class FakeMediaStreamTrack extends EventTarget {
+  readonly kind = "video";
+  readonly id = `fake-track-${++nextId}`;
+  readonly label: string;
+  enabled = true;
+  muted = false;
+  readyState: MediaStreamTrackState = "live";
+  onended: ((event: Event) => void) | null = null;
+  private settings: MediaTrackSettings;
+
+  constructor(options: FakeVideoTrackOptions = {}) {
+    super();
+    this.label = options.label ?? "Fake Camera";
+    this.settings = {
+      width: options.width ?? 640,
+      height: options.height ?? 480,
+      frameRate: options.frameRate ?? 30,
+      deviceId: options.deviceId ?? "fake-camera",
+    };
+  }
+
+  getSettings(): MediaTrackSettings {
+    return { ...this.settings };
+  }
+
+  getConstraints(): MediaTrackConstraints {
+    return {};
+  }
+
+  async applyConstraints(
+    constraints: MediaTrackConstraints = {},
+  ): Promise<void> {
+    for (const key of ["width", "height", "frameRate"] as const) {
+      const value = constraints[key];
+      if (typeof value === "number") {
+        this.settings[key] = value;
+      }
+    }
+  }
+
+  clone(): FakeMediaStreamTrack {
+    return new FakeMediaStreamTrack({ ...this.settings, label: this.label });
+  }
+
+  /**
+   * Stopping does not fire "ended", as in browsers
+   */
+  stop(): void {
+    this.readyState = "ended";
+  }
+
+  /**
+   * End the track from the source side, firing "ended"
+   */
+  end(): void {
+    if (this.readyState === "ended") {
+      return;
+    }
+    this.readyState = "ended";
+    const event = new Event("ended");
+    this.dispatchEvent(event);
+    this.onended?.(event);
+  }
+}
+
+export class FakeMediaStream extends EventTarget {
+  readonly id = `fake-stream-${++nextId}`;
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    super();
+    this.tracks = [...tracks];
+  }
+
+  get active(): boolean {
+    return this.tracks.some((track) => track.readyState === "live");
+  }
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+
+  getVideoTracks(): FakeMediaStreamTrack[] {
+    return this.getTracks();
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return [];
+  }
+
+  addTrack(track: FakeMediaStreamTrack): void {
+    if (!this.tracks.includes(track)) {
+      this.tracks.push(track);
+    }
+  }
+
+  removeTrack(track: FakeMediaStreamTrack): void {
+    this.tracks = this.tracks.filter((item) => item !== track);
+  }
+}
+
+/**
+ * A MediaStream with one fake video track, e.g. for a media-stream source
+ */
+export function createFakeMediaStream(
+  options: FakeVideoTrackOptions = {},
+): MediaStream {
+  return new FakeMediaStream([
+    new FakeMediaStreamTrack(options),
+  ]) as unknown as MediaStream;
+}
+
+function mediaError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * navigator.mediaDevices with fake cameras and screen capture
+ */
+export class FakeMediaDevices extends EventTarget {
+  /**
+   * Constraints of every getUserMedia() and getDisplayMedia() call
+   */
+  readonly requests: Array<{
+    kind: "user" | "display";
+    constraints: MediaStreamConstraints | DisplayMediaStreamOptions;
+  }> = [];
+  ondevicechange: ((event: Event) => void) | null = null;
+  private cameras: FakeVideoTrackOptions[];
+  private failures: string[] = [];
+
+  constructor(
+    cameras: FakeVideoTrackOptions[] = [
+      { deviceId: "fake-camera", label: "Fake Camera" },
+    ],
+  ) {
+    super();
+    this.cameras = cameras;
+  }
+
+  async getUserMedia(
+    constraints: MediaStreamConstraints = {},
+  ): Promise<MediaStream> {
+    this.requests.push({ kind: "user", constraints });
+    this.throwInjectedFailure();
+    const video =
+      typeof constraints.video === "object" ? constraints.video : {};
+    const deviceId = this.constraintValue(video.deviceId);
+    const camera = deviceId
+      ? this.cameras.find((item) => item.deviceId === deviceId)
+      : this.cameras[0];
+    if (!camera) {
+      throw mediaError("NotFoundError", "Requested device not found");
+    }
+    return createFakeMediaStream({
+      ...camera,
+      ...(typeof video.width === "number" && { width: video.width }),
+      ...(typeof video.height === "number" && { height: video.height }),
+      ...(typeof video.frameRate === "number" && {
+        frameRate: video.frameRate,
+      }),
+    });
+  }
+
+  async getDisplayMedia(
+    options: DisplayMediaStreamOptions = {},
+  ): Promise<MediaStream> {
+    this.requests.push({ kind: "display", constraints: options });
+    this.throwInjectedFailure();
+    return createFakeMediaStream({
+      width: 1920,
+      height: 1080,
+      frameRate: 15,
+      deviceId: "fake-screen",
+      label: "Fake Screen",
+    });
+  }
+
+  async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+    return this.cameras.map(
+      (camera) =>
+        ({
+          deviceId: camera.deviceId ?? "",
+          groupId: "fake-group",
+          kind: "videoinput",
+          label: camera.label ?? "",
+          toJSON() {
+            return this;
+          },
+        }) as MediaDeviceInfo,
+    );
+  }
+
+  getSupportedConstraints(): MediaTrackSupportedConstraints {
+    return { deviceId: true, facingMode: true, width: true, height: true };
+  }
+
+  /**
+   * Replace the connected cameras, firing "devicechange"
+   */
+  setCameras(cameras: FakeVideoTrackOptions[]): void {
+    this.cameras = cameras;
+    const event = new Event("devicechange");
+    this.dispatchEvent(event);
+    this.ondevicechange?.(event);
+  }
+
+  /**
+   * Make the next request fail with a DOMException name, e.g.
+   * "NotAllowedError" for a denied permission
+   */
+  failNext(name: string): void {
+    this.failures.push(name);
+  }
+
+  private throwInjectedFailure(): void {
+    const name = this.failures.shift();
+    if (name) {
+      throw mediaError(name, `Fake ${name}`);
+    }
+  }
+
+  private constraintValue(
+    value: ConstrainDOMString | undefined,
+  ): string | undefined {
+    if (typeof value === "string") {
+      return value;
+    }
+    if (value && !Array.isArray(value) && typeof value === "object") {
+      const exact = value.exact ?? value.ideal;
+      return typeof exact === "string" ? exact : undefined;
+    }
+    return undefined;
+  }
+}
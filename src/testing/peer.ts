@@ -0,0 +1,157 @@
+/**
+ * RTCRtpSender of a FakePeerConnection
+ */
+export class FakeRtpSender {
+  track: MediaStreamTrack | null;
+
+  constructor(track: MediaStreamTrack | null) {
+    this.track = track;
+  }
+
+  async replaceTrack(track: MediaStreamTrack | null): Promise<void> {
+    this.track = track;
+  }
+}
+
+/**
+ * An RTCPeerConnection that negotiates instantly and connects as soon as
+ * the answer is applied. setIceConnectionState() simulates network changes.
+ */
+export class FakePeerConnection extends EventTarget {
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  iceConnectionState: RTCIceConnectionState = "new";
+  iceGatheringState: RTCIceGatheringState = "new";
+  signalingState: RTCSignalingState = "stable";
+  onicecandidate: ((event: RTCPeerConnectionIceEvent) => void) | null = null;
+  oniceconnectionstatechange: ((event: Event) => void) | null = null;
+  /**
+   * Number of offers created, including ICE restarts
+   */
+  offers = 0;
+  private configuration: RTCConfiguration;
+  private senders: FakeRtpSender[] = [];
+  private bytesSent = 0;
+
+  constructor(configuration: RTCConfiguration = {}) {
+    super();
+    this.configuration = { ...configuration };
+  }
+
+  getConfiguration(): RTCConfiguration {
+    return { ...this.configuration };
+  }
+
+  setConfiguration(configuration: RTCConfiguration): void {
+    this.configuration = { ...configuration };
+  }
+
+  addTrack(track: MediaStreamTrack, ..._streams: MediaStream[]): FakeRtpSender {
+    const sender = new FakeRtpSender(track);
+    this.senders.push(sender);
+    return sender;
+  }
+
+  getSenders(): FakeRtpSender[] {
+    return [...this.senders];
+  }
+
+  async createOffer(
+    options: RTCOfferOptions = {},
+  ): Promise<RTCSessionDescriptionInit> {
+    this.assertOpen();
+    this.offers++;
+    return {
+      type: "offer",
+      sdp: `v=0\r\no=fake ${this.offers} 0 IN IP4 127.0.0.1\r\n${options.iceRestart ? "a=ice-restart\r\n" : ""}`,
+    };
+  }
+
+  async setLocalDescription(
+    description: RTCSessionDescriptionInit,
+  ): Promise<void> {
+    this.assertOpen();
+    this.localDescription = description;
+    this.signalingState = "have-local-offer";
+    this.iceGatheringState = "complete";
+    queueMicrotask(() =>
+      this.onicecandidate?.({ candidate: null } as RTCPeerConnectionIceEvent),
+    );
+  }
+
+  async setRemoteDescription(
+    description: RTCSessionDescriptionInit,
+  ): Promise<void> {
+    this.assertOpen();
+    if (!description.sdp) {
+      throw new Error("Fake remote description has no SDP");
+    }
+    this.remoteDescription = description;
+    this.signalingState = "stable";
+    if (this.iceConnectionState !== "connected") {
+      queueMicrotask(() => this.setIceConnectionState("connected"));
+    }
+  }
+
+  restartIce(): void {
+    // Renegotiation is driven by createOffer({ iceRestart: true })
+  }
+
+  /**
+   * Simulate an ICE transition, e.g. "disconnected" for a network drop
+   */
+  setIceConnectionState(state: RTCIceConnectionState): void {
+    if (
+      this.iceConnectionState === "closed" ||
+      this.iceConnectionState === state
+    ) {
+      return;
+    }
+    this.iceConnectionState = state;
+    const event = new Event("iceconnectionstatechange");
+    this.dispatchEvent(event);
+    this.oniceconnectionstatechange?.(event);
+  }
+
+  /**
+   * A stats report with an outbound video stream that grows on every call
+   */
+  async getStats(): Promise<RTCStatsReport> {
+    const track = this.senders[0]?.track;
+    const settings = track?.getSettings() ?? {};
+    this.bytesSent += 50_000;
+    const stats = new Map<string, Record<string, unknown>>([
+      [
+        "outbound",
+        {
+          id: "outbound",
+          type: "outbound-rtp",
+          kind: "video",
+          timestamp: Date.now(),
+          bytesSent: this.bytesSent,
+          frameWidth: settings.width,
+          frameHeight: settings.height,
+          framesPerSecond: settings.frameRate,
+        },
+      ],
+    ]);
+    return stats as unknown as RTCStatsReport;
+  }
+
+  close(): void {
+    this.iceConnectionState = "closed";
+    this.signalingState = "closed";
+  }
+
+  /**
+   * Reject negotiation after close(), as browsers do
+   */
+  private assertOpen(): void {
+    if (this.signalingState === "closed") {
+      throw new DOMException(
+        "The RTCPeerConnection's signalingState is 'closed'.",
+        "InvalidStateError",
+      );
+    }
+  }
+}
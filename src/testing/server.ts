@@ -0,0 +1,892 @@
+import type {
+  StreamCreateRequest,
+  StreamConfigResponse,
+  StreamInferenceResult,
+  StreamInfo,
+  StreamStatus,
+  FeedbackCreateRequest,
+  FeedbackResponse,
+  TokenCreateRequest,
+} from "../client/types";
+import { FakeMediaDevices, FakeMediaStream } from "./media";
+import { FakePeerConnection } from "./peer";
+
+/**
+ * A result to send: the result string, or fields overriding the generated
+ * result (e.g. { ok: false, error: "timeout" })
+ */
+export type FakeResult = string | Partial<StreamInferenceResult>;
+
+export type FakeResultScript = {
+  results: FakeResult[];
+  /**
+   * Delay before each result
+   * @default 100
+   */
+  intervalMs?: number;
+  /**
+   * Start over after the last result
+   * @default false
+   */
+  loop?: boolean;
+};
+
+/**
+ * An injected failure: an HTTP error response, or "network" for a rejected
+ * fetch
+ */
+export type FakeFailure =
+  | { status: number; body?: unknown; headers?: Record<string, string> }
+  | "network";
+
+export type FakeServerOptions = {
+  /**
+   * @default "https://api.overshoot.test"
+   */
+  baseUrl?: string;
+  /**
+   * Accepted API keys. Any non-empty credential is accepted when omitted.
+   */
+  apiKeys?: string[];
+  /**
+   * Delay of every response and WebSocket connection
+   * @default 0
+   */
+  latencyMs?: number;
+  /**
+   * Lease granted on creation and keepalive
+   * @default 300
+   */
+  leaseTtlSeconds?: number;
+  /**
+   * Returned as turn_servers on stream creation
+   */
+  turnServers?: RTCIceServer[];
+  /**
+   * Results sent on every authenticated WebSocket
+   */
+  results?: FakeResultScript;
+};
+
+export type FakeRequest = {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+/**
+ * Server-side state of a stream
+ */
+export type FakeStream = {
+  id: string;
+  status: StreamStatus;
+  config: StreamConfigResponse;
+  /**
+   * Unix timestamp in milliseconds
+   */
+  leaseExpiresAt: number;
+  createdAt: string;
+  closedAt: string | null;
+  feedback: FeedbackResponse[];
+};
+
+type RouteHandler = (
+  params: string[],
+  request: FakeRequest,
+  query: URLSearchParams,
+) => Response;
+
+type Route = { method: string; pattern: RegExp; handle: RouteHandler };
+
+const DEFAULT_BASE_URL = "https://api.overshoot.test";
+const DEFAULT_LEASE_TTL_SECONDS = 300;
+const DEFAULT_RESULT_INTERVAL_MS = 100;
+const WS_AUTH_FAILED_CLOSE_CODE = 1008;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorJson(status: number, error: string, message: string): Response {
+  return json({ error, message, request_id: `fake-${Date.now()}` }, status);
+}
+
+function abortError(): Error {
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Server end of a FakeWebSocket
+ */
+type SocketState = {
+  socket: FakeWebSocket;
+  streamId: string;
+  authenticated: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * A WebSocket connected to a FakeOvershootServer. Server messages are
+ * delivered synchronously so tests can assert right after sending them.
+ */
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  /**
+   * Messages sent by the client
+   */
+  readonly sent: string[] = [];
+  private server: FakeOvershootServer;
+
+  constructor(server: FakeOvershootServer, url: string) {
+    this.server = server;
+    this.url = url;
+    server.connect(this);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error("Fake WebSocket is not open");
+    }
+    this.sent.push(data);
+    this.server.receive(this, data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState >= FakeWebSocket.CLOSING) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSING;
+    this.server.disconnectSocket(this);
+    setTimeout(() => this.closed(code, reason), 0);
+  }
+
+  /**
+   * @internal Called by the server
+   */
+  opened(): void {
+    if (this.readyState !== FakeWebSocket.CONNECTING) {
+      return;
+    }
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.(new Event("open"));
+  }
+
+  /**
+   * @internal Called by the server
+   */
+  deliver(message: unknown): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      return;
+    }
+    this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+
+  /**
+   * @internal Called by the server
+   */
+  closed(code: number, reason = ""): void {
+    if (this.readyState === FakeWebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+  }
+}
+
+/**
+ * In-process Overshoot API for tests and offline development. Serves the
+ * stream, config, feedback and token endpoints through fetch, and results
+ * through /ws/streams/{id}.
+ *
+ * @example
+ * const server = new FakeOvershootServer({ results: { results: ["1", "2"] } });
+ * const restore = server.install();
+ * const vision = new RealtimeVision({ apiUrl: server.baseUrl, apiKey: "key", ... });
+ */
+export class FakeOvershootServer {
+  readonly baseUrl: string;
+  /**
+   * Every HTTP request received, in order
+   */
+  readonly requests: FakeRequest[] = [];
+  /**
+   * Peer connections created while installed
+   */
+  readonly peerConnections: FakePeerConnection[] = [];
+  readonly mediaDevices = new FakeMediaDevices();
+  /**
+   * fetch bound to this server
+   */
+  readonly fetch: typeof fetch;
+  /**
+   * WebSocket constructor bound to this server
+   */
+  readonly WebSocket: typeof WebSocket;
+
+  private apiKeys: Set<string> | null;
+  private tokens = new Map<string, number>();
+  private latencyMs: number;
+  private leaseTtlSeconds: number;
+  private turnServers: RTCIceServer[] | undefined;
+  private script: FakeResultScript | undefined;
+  private streams = new Map<string, FakeStream>();
+  private sockets: SocketState[] = [];
+  private failures: Array<{
+    method: string;
+    pattern: RegExp;
+    failure: FakeFailure;
+    remaining: number;
+  }> = [];
+  private routes: Route[];
+  private nextStreamId = 0;
+  private nextResultId = 0;
+
+  constructor(options: FakeServerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.apiKeys = options.apiKeys ? new Set(options.apiKeys) : null;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.leaseTtlSeconds = options.leaseTtlSeconds ?? DEFAULT_LEASE_TTL_SECONDS;
+    this.turnServers = options.turnServers;
+    this.script = options.results;
+    this.routes = this.createRoutes();
+
+    this.fetch = (input, init) => this.handleFetch(input, init);
+    const server = this;
+    this.WebSocket = class extends FakeWebSocket {
+      constructor(url: string | URL) {
+        super(server, String(url));
+      }
+    } as unknown as typeof WebSocket;
+  }
+
+  /**
+   * Replace fetch, WebSocket, RTCPeerConnection, MediaStream and
+   * navigator.mediaDevices with fakes bound to this server
+   * @returns Function that restores the originals
+   */
+  install(): () => void {
+    const server = this;
+    const globals: Record<string, unknown> = {
+      fetch: this.fetch,
+      WebSocket: this.WebSocket,
+      RTCPeerConnection: class extends FakePeerConnection {
+        constructor(configuration?: RTCConfiguration) {
+          super(configuration);
+          server.peerConnections.push(this);
+        }
+      },
+      MediaStream: FakeMediaStream,
+    };
+    const target = globalThis as Record<string, unknown>;
+    const previous = Object.fromEntries(
+      Object.keys(globals).map((key) => [key, target[key]]),
+    );
+    Object.assign(target, globals);
+
+    const navigatorRef = globalThis.navigator as Navigator | undefined;
+    const mediaDescriptor =
+      navigatorRef &&
+      Object.getOwnPropertyDescriptor(navigatorRef, "mediaDevices");
+    if (navigatorRef) {
+      Object.defineProperty(navigatorRef, "mediaDevices", {
+        value: this.mediaDevices,
+        configurable: true,
+        writable: true,
+      });
+    }
+
+    return () => {
+      Object.assign(target, previous);
+      if (navigatorRef) {
+        if (mediaDescriptor) {
+          Object.defineProperty(navigatorRef, "mediaDevices", mediaDescriptor);
+        } else {
+          delete (navigatorRef as { mediaDevices?: unknown }).mediaDevices;
+        }
+      }
+    };
+  }
+
+  /**
+   * Server-side state of a stream
+   */
+  getStream(streamId: string): FakeStream | undefined {
+    return this.streams.get(streamId);
+  }
+
+  getStreams(): FakeStream[] {
+    return [...this.streams.values()];
+  }
+
+  /**
+   * Delay every response and WebSocket connection
+   */
+  setLatency(ms: number): void {
+    this.latencyMs = ms;
+  }
+
+  /**
+   * Results sent on WebSockets authenticated from now on
+   */
+  scriptResults(script: FakeResultScript | undefined): void {
+    this.script = script;
+  }
+
+  /**
+   * Fail the next matching requests
+   * @param route Method and path, with :id for a path segment, e.g.
+   *   "POST /streams" or "POST /streams/:id/keepalive"
+   */
+  failNext(route: string, failure: FakeFailure, times = 1): void {
+    const [method, path] = route.split(" ");
+    if (!method || !path) {
+      throw new Error(`Route must be "METHOD /path", got "${route}"`);
+    }
+    const pattern = new RegExp(
+      `^${path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/:id/g, "[^/]+")}$`,
+    );
+    this.failures.push({
+      method: method.toUpperCase(),
+      pattern,
+      failure,
+      remaining: times,
+    });
+  }
+
+  /**
+   * Send a result to the authenticated WebSockets of a stream, or of every
+   * stream when streamId is omitted
+   */
+  sendResult(result: FakeResult = "", streamId?: string): void {
+    for (const state of this.authenticatedSockets(streamId)) {
+      state.socket.deliver(this.buildResult(state.streamId, result));
+    }
+  }
+
+  /**
+   * Send any message, e.g. { type: "error", error: "busy" }
+   */
+  sendMessage(message: unknown, streamId?: string): void {
+    for (const state of this.authenticatedSockets(streamId)) {
+      state.socket.deliver(message);
+    }
+  }
+
+  /**
+   * Close the WebSockets of a stream from the server side, e.g. with 1006
+   * to simulate a dropped connection
+   */
+  disconnect(streamId?: string, code = 1006, reason = ""): void {
+    for (const state of this.sockets.filter(
+      (item) => !streamId || item.streamId === streamId,
+    )) {
+      this.disconnectSocket(state.socket);
+      state.socket.closed(code, reason);
+    }
+  }
+
+  /**
+   * Expire the lease now: keepalives fail with 404 and open WebSockets get
+   * a lease_expired notice before they are closed
+   */
+  expireLease(streamId: string): void {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      throw new Error(`Unknown stream ${streamId}`);
+    }
+    stream.status = "expired";
+    stream.leaseExpiresAt = Date.now();
+    stream.closedAt = new Date().toISOString();
+    this.sendMessage({ type: "lease_expired", stream_id: streamId }, streamId);
+    this.disconnect(streamId, 1000, "Lease expired");
+  }
+
+  /**
+   * Stop scripted results and close every WebSocket
+   */
+  reset(): void {
+    this.disconnect(undefined, 1001, "Server reset");
+    this.streams.clear();
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  /**
+   * @internal Called by FakeWebSocket
+   */
+  connect(socket: FakeWebSocket): void {
+    const path = this.routePath(new URL(socket.url));
+    const streamId = /^\/ws\/streams\/([^/]+)$/.exec(path)?.[1];
+    const stream = streamId ? this.streams.get(streamId) : undefined;
+    const state: SocketState = {
+      socket,
+      streamId: streamId ?? "",
+      authenticated: false,
+      timer: null,
+    };
+    this.sockets.push(state);
+
+    delay(this.latencyMs).then(() => {
+      if (!this.sockets.includes(state)) {
+        return;
+      }
+      socket.opened();
+      if (!stream || !this.isActive(stream)) {
+        this.disconnectSocket(socket);
+        socket.closed(4404, "Stream not found");
+      }
+    });
+  }
+
+  /**
+   * @internal Called by FakeWebSocket
+   */
+  receive(socket: FakeWebSocket, data: string): void {
+    const state = this.sockets.find((item) => item.socket === socket);
+    if (!state || state.authenticated) {
+      return;
+    }
+    let credential: unknown;
+    try {
+      credential = JSON.parse(data).api_key;
+    } catch {
+      credential = undefined;
+    }
+    if (typeof credential !== "string" || !this.isAuthorized(credential)) {
+      this.disconnectSocket(socket);
+      socket.closed(WS_AUTH_FAILED_CLOSE_CODE, "Unauthorized");
+      return;
+    }
+    state.authenticated = true;
+    if (this.script) {
+      this.playScript(state, this.script, 0);
+    }
+  }
+
+  /**
+   * @internal Called by FakeWebSocket
+   */
+  disconnectSocket(socket: FakeWebSocket): void {
+    const state = this.sockets.find((item) => item.socket === socket);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.sockets = this.sockets.filter((item) => item.socket !== socket);
+  }
+
+  private playScript(
+    state: SocketState,
+    script: FakeResultScript,
+    index: number,
+  ): void {
+    if (index >= script.results.length) {
+      if (!script.loop || script.results.length === 0) {
+        return;
+      }
+      index = 0;
+    }
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      if (!this.sockets.includes(state)) {
+        return;
+      }
+      state.socket.deliver(
+        this.buildResult(state.streamId, script.results[index]!),
+      );
+      this.playScript(state, script, index + 1);
+    }, script.intervalMs ?? DEFAULT_RESULT_INTERVAL_MS);
+  }
+
+  private authenticatedSockets(streamId?: string): SocketState[] {
+    return this.sockets.filter(
+      (state) =>
+        state.authenticated && (!streamId || state.streamId === streamId),
+    );
+  }
+
+  private buildResult(
+    streamId: string,
+    result: FakeResult,
+  ): StreamInferenceResult {
+    const config = this.streams.get(streamId)?.config;
+    const overrides = typeof result === "string" ? { result } : result;
+    return {
+      id: `result-${++this.nextResultId}`,
+      stream_id: streamId,
+      model_backend: config?.backend ?? "overshoot",
+      model_name: config?.model ?? "fake-model",
+      prompt: config?.prompt ?? "",
+      result: "",
+      inference_latency_ms: 50,
+      total_latency_ms: 100,
+      ok: true,
+      error: null,
+      ...overrides,
+    };
+  }
+
+  private isAuthorized(credential: string): boolean {
+    const tokenExpiry = this.tokens.get(credential);
+    if (tokenExpiry !== undefined) {
+      return Date.now() < tokenExpiry;
+    }
+    return this.apiKeys ? this.apiKeys.has(credential) : credential.length > 0;
+  }
+
+  private isActive(stream: FakeStream): boolean {
+    if (stream.status === "active" && Date.now() >= stream.leaseExpiresAt) {
+      stream.status = "expired";
+      stream.closedAt = new Date(stream.leaseExpiresAt).toISOString();
+    }
+    return stream.status === "active";
+  }
+
+  private async handleFetch(
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url,
+    );
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = Object.fromEntries(new Headers(init.headers).entries());
+    let body: unknown;
+    try {
+      body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+    } catch {
+      body = init.body;
+    }
+    const path = this.routePath(url);
+    const request: FakeRequest = { method, path, headers, body };
+    this.requests.push(request);
+
+    await delay(this.latencyMs, init.signal);
+
+    const failure = this.takeFailure(method, path);
+    if (failure === "network") {
+      throw new TypeError("Failed to fetch (fake network failure)");
+    }
+    if (failure) {
+      return new Response(JSON.stringify(failure.body ?? {}), {
+        status: failure.status,
+        headers: { "Content-Type": "application/json", ...failure.headers },
+      });
+    }
+
+    const credential = headers.authorization?.replace(/^Bearer\s+/i, "");
+    if (!credential || !this.isAuthorized(credential)) {
+      return errorJson(401, "unauthorized", "Invalid or revoked API key");
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method && route.pattern.exec(path);
+      if (match) {
+        return route.handle(match.slice(1), request, url.searchParams);
+      }
+    }
+    return errorJson(404, "not_found", `No route for ${method} ${path}`);
+  }
+
+  /**
+   * Path relative to baseUrl, which may include a prefix such as /v1
+   */
+  private routePath(url: URL): string {
+    const prefix = new URL(this.baseUrl).pathname.replace(/\/$/, "");
+    return url.pathname.startsWith(prefix)
+      ? url.pathname.slice(prefix.length) || "/"
+      : url.pathname;
+  }
+
+  private takeFailure(method: string, path: string): FakeFailure | undefined {
+    const index = this.failures.findIndex(
+      (item) => item.method === method && item.pattern.test(path),
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const entry = this.failures[index]!;
+    entry.remaining--;
+    if (entry.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return entry.failure;
+  }
+
+  private activeStream(streamId: string): FakeStream | Response {
+    const stream = this.streams.get(streamId);
+    if (!stream || !this.isActive(stream)) {
+      return errorJson(404, "not_found", "Stream not found or lease expired");
+    }
+    return stream;
+  }
+
+  private toInfo(stream: FakeStream): StreamInfo {
+    const ttlMs = Math.max(0, stream.leaseExpiresAt - Date.now());
+    return {
+      stream_id: stream.id,
+      status: stream.status,
+      config: stream.config,
+      ...(stream.status === "active" && {
+        lease: {
+          ttl_seconds: Math.round(ttlMs / 1000),
+          expires_at: new Date(stream.leaseExpiresAt).toISOString(),
+        },
+      }),
+      created_at: stream.createdAt,
+      closed_at: stream.closedAt,
+    };
+  }
+
+  private updateConfig(
+    streamId: string,
+    update: Partial<StreamConfigResponse>,
+  ): Response {
+    const stream = this.activeStream(streamId);
+    if (stream instanceof Response) {
+      return stream;
+    }
+    stream.config = {
+      ...stream.config,
+      ...update,
+      updated_at: new Date().toISOString(),
+    };
+    return json(stream.config);
+  }
+
+  private createRoutes(): Route[] {
+    const route = (
+      method: string,
+      path: string,
+      handle: RouteHandler,
+    ): Route => ({
+      method,
+      pattern: new RegExp(`^${path.replace(/:id/g, "([^/]+)")}$`),
+      handle,
+    });
+
+    return [
+      route("POST", "/streams", (_params, request) => {
+        const body = request.body as Partial<StreamCreateRequest> | undefined;
+        if (!body?.webrtc?.sdp || !body.inference?.prompt || !body.processing) {
+          return errorJson(
+            422,
+            "validation_error",
+            "webrtc, processing and inference.prompt are required",
+          );
+        }
+        const id = `stream-${++this.nextStreamId}`;
+        const now = new Date().toISOString();
+        const stream: FakeStream = {
+          id,
+          status: "active",
+          config: {
+            id: `config-${this.nextStreamId}`,
+            stream_id: id,
+            prompt: body.inference.prompt,
+            backend: body.inference.backend ?? "overshoot",
+            model: body.inference.model ?? "fake-model",
+            ...(body.inference.output_schema_json && {
+              output_schema_json: body.inference.output_schema_json,
+            }),
+            processing: body.processing,
+            created_at: now,
+            updated_at: now,
+          },
+          leaseExpiresAt: Date.now() + this.leaseTtlSeconds * 1000,
+          createdAt: now,
+          closedAt: null,
+          feedback: [],
+        };
+        this.streams.set(id, stream);
+        return json({
+          stream_id: id,
+          webrtc: {
+            type: "answer",
+            sdp: "v=0\r\no=fake-answer 0 0 IN IP4 127.0.0.1\r\n",
+          },
+          lease: { ttl_seconds: this.leaseTtlSeconds },
+          ...(this.turnServers && { turn_servers: this.turnServers }),
+        });
+      }),
+
+      route("GET", "/streams", (_params, _request, query) => {
+        const status = query.get("status");
+        const limit = Number(query.get("limit") ?? 50);
+        const offset = Number(query.get("cursor") ?? 0);
+        const streams = this.getStreams()
+          .filter((stream) => {
+            this.isActive(stream);
+            return !status || stream.status === status;
+          })
+          .map((stream) => this.toInfo(stream));
+        const page = streams.slice(offset, offset + limit);
+        const next = offset + limit;
+        return json({
+          streams: page,
+          next_cursor: next < streams.length ? String(next) : null,
+        });
+      }),
+
+      route("GET", "/streams/feedback", () =>
+        json(this.getStreams().flatMap((stream) => stream.feedback)),
+      ),
+
+      route("GET", "/streams/:id", ([streamId]) => {
+        const stream = this.streams.get(streamId!);
+        if (!stream) {
+          return errorJson(404, "not_found", "Stream not found");
+        }
+        this.isActive(stream);
+        return json(this.toInfo(stream));
+      }),
+
+      route("POST", "/streams/:id/webrtc", ([streamId]) => {
+        const stream = this.activeStream(streamId!);
+        if (stream instanceof Response) {
+          return stream;
+        }
+        return json({
+          stream_id: stream.id,
+          webrtc: {
+            type: "answer",
+            sdp: "v=0\r\no=fake-answer 1 0 IN IP4 127.0.0.1\r\n",
+          },
+        });
+      }),
+
+      route("POST", "/streams/:id/keepalive", ([streamId]) => {
+        const stream = this.activeStream(streamId!);
+        if (stream instanceof Response) {
+          return stream;
+        }
+        stream.leaseExpiresAt = Date.now() + this.leaseTtlSeconds * 1000;
+        return json({
+          status: "ok",
+          stream_id: stream.id,
+          ttl_seconds: this.leaseTtlSeconds,
+        });
+      }),
+
+      route("POST", "/streams/:id/close", ([streamId]) => {
+        const stream = this.streams.get(streamId!);
+        if (!stream) {
+          return errorJson(404, "not_found", "Stream not found");
+        }
+        if (stream.status === "active") {
+          stream.status = "closed";
+          stream.closedAt = new Date().toISOString();
+          this.disconnect(stream.id, 1000, "Stream closed");
+        }
+        return json({ status: "ok", stream_id: stream.id });
+      }),
+
+      route("PATCH", "/streams/:id/config/prompt", ([streamId], request) => {
+        const prompt = (request.body as { prompt?: unknown } | undefined)
+          ?.prompt;
+        if (typeof prompt !== "string" || !prompt) {
+          return errorJson(422, "validation_error", "prompt is required");
+        }
+        return this.updateConfig(streamId!, { prompt });
+      }),
+
+      route("PATCH", "/streams/:id/config/inference", ([streamId], request) =>
+        this.updateConfig(
+          streamId!,
+          request.body as Partial<StreamConfigResponse>,
+        ),
+      ),
+
+      route(
+        "PATCH",
+        "/streams/:id/config/processing",
+        ([streamId], request) => {
+          const stream = this.activeStream(streamId!);
+          if (stream instanceof Response) {
+            return stream;
+          }
+          return this.updateConfig(streamId!, {
+            processing: {
+              ...stream.config.processing!,
+              ...(request.body as object),
+            },
+          });
+        },
+      ),
+
+      route("POST", "/streams/:id/feedback", ([streamId], request) => {
+        const stream = this.streams.get(streamId!);
+        const body = request.body as FeedbackCreateRequest | undefined;
+        if (!stream) {
+          return errorJson(404, "not_found", "Stream not found");
+        }
+        if (!body || typeof body.rating !== "number" || !body.category) {
+          return errorJson(
+            422,
+            "validation_error",
+            "rating and category are required",
+          );
+        }
+        stream.feedback.push({
+          id: `feedback-${stream.feedback.length + 1}`,
+          stream_id: stream.id,
+          rating: body.rating,
+          category: body.category,
+          feedback: body.feedback ?? "",
+          created_at: new Date().toISOString(),
+        });
+        return json({ status: "ok" });
+      }),
+
+      route("POST", "/auth/tokens", (_params, request) => {
+        const body = (request.body ?? {}) as TokenCreateRequest;
+        const ttlSeconds = body.ttl_seconds ?? 600;
+        const token = `fake-token-${this.tokens.size + 1}`;
+        const expiresAt = Date.now() + ttlSeconds * 1000;
+        this.tokens.set(token, expiresAt);
+        return json({
+          token,
+          expires_at: new Date(expiresAt).toISOString(),
+          scopes: body.scopes ?? [],
+        });
+      }),
+    ];
+  }
+}